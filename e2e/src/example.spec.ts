@@ -4,5 +4,5 @@ test('has title', async ({ page }) => {
   await page.goto('/');
 
   // Expect h1 to contain a substring.
-  expect(await page.locator('h1').innerText()).toContain('Welcome to the formulizer!');
+  expect(await page.locator('h1').innerText()).toContain('Formula AST Visualizer');
 });
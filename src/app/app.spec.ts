@@ -1,10 +1,12 @@
 import { TestBed } from '@angular/core/testing';
+import { provideMemoryStorage } from './testing/workspace-storage';
 import { App } from './app';
 
 describe('App', () => {
   beforeEach(async () => {
     await TestBed.configureTestingModule({
       imports: [App],
+      providers: [provideMemoryStorage()],
     }).compileComponents();
   });
 
@@ -2,17 +2,36 @@ import { Component, ChangeDetectionStrategy, inject, signal, computed, effect, O
 import { CommonModule } from '@angular/common';
 import { FormsModule } from '@angular/forms';
 import { TreeVisualizerComponent } from './components/tree-visualizer/tree-visualizer.component';
+import { ParameterPanelComponent } from './components/parameter-panel/parameter-panel.component';
+import { DerivativePanelComponent } from './components/derivative-panel/derivative-panel.component';
+import { DependencyPanelComponent } from './components/dependency-panel/dependency-panel.component';
+import { FormulaLibraryComponent } from './components/formula-library/formula-library.component';
 import { AstManipulatorService } from './services/ast-manipulator.service';
-import { FormulaBuilderService } from './services/formula-builder.service';
+import { FormulaEvaluatorService } from './services/formula-evaluator.service';
+import { WorkspaceService } from './services/workspace.service';
+import { AstNode, SourceSpan } from './models/ast-node.model';
+import { ParseDiagnostic } from './models/diagnostic.model';
+import { SavedFormula } from './models/workspace.model';
+import { parseFormulaWithDiagnostics } from './parser/formula-parser';
 
-// @ts-ignore
-import * as Parser from './parser/formula-parser.js';
-const parse = Parser.parse;
+interface FormulaSegment {
+  text: string;
+  highlighted: boolean;
+  error: boolean;
+}
 
 @Component({
   selector: 'app-root',
   standalone: true,
-  imports: [CommonModule, FormsModule, TreeVisualizerComponent],
+  imports: [
+    CommonModule,
+    FormsModule,
+    TreeVisualizerComponent,
+    ParameterPanelComponent,
+    DerivativePanelComponent,
+    DependencyPanelComponent,
+    FormulaLibraryComponent
+  ],
   templateUrl: './app.html',
   styleUrl: './app.scss',
   changeDetection: ChangeDetectionStrategy.OnPush
@@ -20,13 +39,30 @@ const parse = Parser.parse;
 export class App implements OnInit {
 
   private readonly astService = inject(AstManipulatorService);
-  private readonly formulaBuilder = inject(FormulaBuilderService);
+  private readonly evaluator = inject(FormulaEvaluatorService);
+  private readonly workspace = inject(WorkspaceService);
 
   readonly formula = signal('($b + SQRT(SQR($b) - 4 * $a)) / (2 * $a)');
   readonly isProcessing = signal(false);
+  // The formula text the current AST was parsed from; node spans point into it
+  readonly parsedFormula = signal<string | null>(null);
+  readonly diagnostics = signal<ParseDiagnostic[]>([]);
+  // Saving waits until the stored workspace has been restored, so it is not overwritten
+  private readonly restored = signal(false);
   
   readonly hasFormula = computed(() => this.formula().trim().length > 0);
   readonly hasAst = computed(() => this.astService.ast() !== null);
+  readonly isFormulaInSync = computed(() => this.parsedFormula() === this.formula());
+
+  // Text of the formula split around the selected node's span and the diagnostic spans
+  readonly formulaSegments = computed(() => {
+    if (!this.isFormulaInSync()) {
+      return this.splitFormula(this.formula(), null, []);
+    }
+    const span = this.astService.selectedNode()?.span ?? null;
+    const errorSpans = this.diagnostics().map(diagnostic => diagnostic.span);
+    return this.splitFormula(this.formula(), span, errorSpans);
+  });
 
   readonly ast = this.astService.ast;
   readonly nodeCount = this.astService.nodeCount;
@@ -43,32 +79,65 @@ export class App implements OnInit {
         console.log('Tree Depth:', this.treeDepth());
       }
     });
+
+    // Saves the workspace whenever the text, the tree or a parameter value changes
+    effect(() => {
+      if (!this.restored()) return;
+      this.workspace.saveSnapshot({
+        formula: this.formula(),
+        parsedFormula: this.parsedFormula(),
+        ast: this.ast(),
+        bindings: this.evaluator.bindings()
+      });
+    });
   }
 
+  // A share link wins over the stored workspace; without either, the default formula is parsed
   ngOnInit(): void {
-    this.parseFormula();
+    const shared = this.workspace.readShareUrl(window.location.href);
+    const snapshot = this.workspace.loadSnapshot();
+
+    if (shared) {
+      this.formula.set(shared.formula);
+      this.parseFormula();
+      this.evaluator.setBindings(shared.bindings);
+      // Drop the query so a reload restores later edits instead of the link
+      window.history.replaceState(null, '', window.location.pathname);
+    } else if (snapshot) {
+      this.restoreSnapshot(snapshot.formula, snapshot.parsedFormula, snapshot.ast);
+      this.evaluator.setBindings(snapshot.bindings);
+    } else {
+      this.parseFormula();
+    }
+
+    this.restored.set(true);
   }
 
   parseFormula(): void {
-    const formulaValue = this.formula().trim();
+    const formulaValue = this.formula();
 
-    if (!formulaValue) {
+    if (!formulaValue.trim()) {
       this.astService.clearAst();
+      this.parsedFormula.set(null);
+      this.diagnostics.set([]);
       return;
     }
     this.isProcessing.set(true);
 
     try {
-      const ast = parse(formulaValue);
-      console.log('Parsed AST:', ast);
-      
+      // Recovering parse: syntax errors become diagnostics and ERROR nodes
+      const { ast, diagnostics } = parseFormulaWithDiagnostics(formulaValue);
+      console.log('Parsed AST:', ast, 'Diagnostics:', diagnostics);
+
       // Update service with new AST
-      this.astService.setAst(ast);
+      if (ast) {
+        this.astService.setAst(ast);
+      } else {
+        this.astService.clearAst();
+      }
+      this.parsedFormula.set(formulaValue);
+      this.diagnostics.set(diagnostics);
       console.log('AST set in service');
-
-    } catch (error: any) {
-      console.error('Parse error:', error);
-      this.astService.clearAst();
     } finally {
       this.isProcessing.set(false);
     }
@@ -79,24 +148,80 @@ export class App implements OnInit {
     this.formula.set(target.value);
   }
 
+  // Selects the innermost node under the caret while the text matches the AST
+  onCaretMove(event: Event): void {
+    if (!this.isFormulaInSync()) {
+      return;
+    }
+    const target = event.target as HTMLTextAreaElement;
+    this.astService.selectNodeAtOffset(target.selectionStart);
+  }
+
+  syncBackdropScroll(event: Event, backdrop: HTMLElement): void {
+    const target = event.target as HTMLTextAreaElement;
+    backdrop.scrollTop = target.scrollTop;
+  }
+
   clearAll(): void {
     this.formula.set('');
+    this.parsedFormula.set(null);
+    this.diagnostics.set([]);
     this.astService.clearAst();
   }
 
-  loadExample(example: string): void {
-    const examples: Record<string, string> = {
-      quadratic: '($b + SQRT(SQR($b) - 4 * $a)) / (2 * $a)',
-      simple: 'PI * SQR($r)',
-      complex: '(SIN($x) + COS($y)) * EXP($z) / SQRT($w)',
-      arithmetic: '(10 + 20) * (30 - 15) / 5',
-      nested: 'SQRT(SQR(SQR($x) + SQR($y)))'
-    };
-
-    const formula = examples[example];
-    if (formula) {
-      this.formula.set(formula);
-      this.parseFormula();
+  loadSaved(saved: SavedFormula): void {
+    this.formula.set(saved.formula);
+    this.parseFormula();
+    this.evaluator.setBindings(saved.bindings);
+  }
+
+  // Brings back the edited tree as it was; diagnostics are recomputed from the text it came from
+  private restoreSnapshot(formula: string, parsedFormula: string | null, ast: AstNode | null): void {
+    this.formula.set(formula);
+    this.parsedFormula.set(parsedFormula);
+    this.diagnostics.set(parsedFormula ? parseFormulaWithDiagnostics(parsedFormula).diagnostics : []);
+
+    if (ast) {
+      this.astService.setAst(ast);
+    } else {
+      this.astService.clearAst();
+    }
+  }
+
+  private splitFormula(text: string, highlight: SourceSpan | null, errors: SourceSpan[]): FormulaSegment[] {
+    const errorSpans = errors.map(span => this.visibleSpan(span, text.length));
+    const boundaries = new Set([0, text.length]);
+
+    [highlight, ...errorSpans].forEach(span => {
+      if (span) {
+        boundaries.add(Math.min(span.start, text.length));
+        boundaries.add(Math.min(span.end, text.length));
+      }
+    });
+
+    const points = [...boundaries].sort((a, b) => a - b);
+    const covers = (span: SourceSpan | null, start: number, end: number) =>
+      !!span && span.start <= start && end <= span.end;
+
+    return points.slice(1)
+      .map((end, index) => {
+        const start = points[index];
+        return {
+          text: text.slice(start, end),
+          highlighted: covers(highlight, start, end),
+          error: errorSpans.some(span => covers(span, start, end))
+        };
+      })
+      .filter(segment => segment.text.length > 0);
+  }
+
+  // Widens an empty span (e.g. a missing operand) to one character so it can be underlined
+  private visibleSpan(span: SourceSpan, length: number): SourceSpan {
+    if (span.start < span.end) {
+      return span;
     }
+    return span.start < length
+      ? { start: span.start, end: span.start + 1 }
+      : { start: Math.max(length - 1, 0), end: length };
   }
 }
\ No newline at end of file
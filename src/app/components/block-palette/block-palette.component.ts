@@ -0,0 +1,36 @@
+import { Component, ChangeDetectionStrategy, Input, Output, EventEmitter, inject } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { InsertAction, PaletteBlock, PaletteSelection } from '../../models/block-palette.model';
+import { BlockPaletteService } from '../../services/block-palette.service';
+
+@Component({
+  selector: 'app-block-palette',
+  standalone: true,
+  imports: [CommonModule],
+  templateUrl: './block-palette.component.html',
+  styleUrl: './block-palette.component.scss',
+  changeDetection: ChangeDetectionStrategy.OnPush
+})
+export class BlockPaletteComponent {
+
+  private readonly palette = inject(BlockPaletteService);
+
+  @Input({ required: true }) actions: InsertAction[] = [];
+
+  @Output() blockSelect = new EventEmitter<PaletteSelection>();
+
+  readonly actionLabels: Record<InsertAction, string> = {
+    'wrap': 'Wrap in',
+    'replace': 'Replace with',
+    'append': 'Add argument'
+  };
+
+  blocksFor(action: InsertAction): PaletteBlock[] {
+    return this.palette.blocksFor(action);
+  }
+
+  onBlockClick(event: MouseEvent, action: InsertAction, block: PaletteBlock): void {
+    event.stopPropagation();
+    this.blockSelect.emit({ action, block });
+  }
+}
@@ -0,0 +1,55 @@
+import { Component, ChangeDetectionStrategy, computed, inject } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { collectReferences } from '../../models/formula-reference.model';
+import { AstManipulatorService } from '../../services/ast-manipulator.service';
+import { FormulaBuilderService } from '../../services/formula-builder.service';
+import { FormulaReferenceService } from '../../services/formula-reference.service';
+
+@Component({
+  selector: 'app-dependency-panel',
+  standalone: true,
+  imports: [CommonModule],
+  templateUrl: './dependency-panel.component.html',
+  styleUrl: './dependency-panel.component.scss',
+  changeDetection: ChangeDetectionStrategy.OnPush
+})
+export class DependencyPanelComponent {
+
+  private readonly astService = inject(AstManipulatorService);
+  private readonly formulaBuilder = inject(FormulaBuilderService);
+  private readonly references = inject(FormulaReferenceService);
+
+  readonly entries = computed(() => [...this.references.graph().entries.values()]);
+
+  readonly cycles = this.references.cycles;
+
+  // Names the current tree refers to directly
+  readonly used = computed(() => {
+    const astValue = this.astService.ast();
+    return astValue ? collectReferences(astValue) : [];
+  });
+
+  // The panel only matters once some formula refers to another
+  readonly visible = computed(() =>
+    this.used().length > 0 || this.entries().some(entry => entry.references.length > 0)
+  );
+
+  readonly expansion = computed(() => {
+    const astValue = this.astService.ast();
+    return astValue && this.used().length > 0 ? this.references.tryExpand(astValue) : null;
+  });
+
+  readonly expandedFormula = computed(() => {
+    const expansion = this.expansion();
+    return expansion?.ok ? this.formulaBuilder.buildFormula(expansion.ast) : null;
+  });
+
+  readonly expansionError = computed(() => {
+    const expansion = this.expansion();
+    return expansion && expansion.ok === false ? expansion.error.message : null;
+  });
+
+  describeCycle(cycle: string[]): string {
+    return [...cycle, cycle[0]].map(name => `@${name}`).join(' → ');
+  }
+}
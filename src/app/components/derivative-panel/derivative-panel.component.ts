@@ -0,0 +1,66 @@
+import { Component, ChangeDetectionStrategy, computed, inject, signal } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { withoutNodeIds } from '../../models/ast-node.model';
+import { AstManipulatorService } from '../../services/ast-manipulator.service';
+import { DifferentiationService } from '../../services/differentiation.service';
+import { FormulaBuilderService } from '../../services/formula-builder.service';
+import { FormulaEvaluatorService } from '../../services/formula-evaluator.service';
+import { NodeComponent } from '../node/node.component';
+
+@Component({
+  selector: 'app-derivative-panel',
+  standalone: true,
+  imports: [CommonModule, NodeComponent],
+  templateUrl: './derivative-panel.component.html',
+  styleUrl: './derivative-panel.component.scss',
+  changeDetection: ChangeDetectionStrategy.OnPush
+})
+export class DerivativePanelComponent {
+
+  private readonly astService = inject(AstManipulatorService);
+  private readonly differentiation = inject(DifferentiationService);
+  private readonly formulaBuilder = inject(FormulaBuilderService);
+  private readonly evaluator = inject(FormulaEvaluatorService);
+
+  private readonly chosenParameter = signal<string | null>(null);
+
+  readonly parameters = this.evaluator.parameters;
+
+  // Falls back to the first parameter when the chosen one leaves the formula
+  readonly parameter = computed(() => {
+    const chosen = this.chosenParameter();
+    const parameters = this.parameters();
+    return chosen && parameters.includes(chosen) ? chosen : parameters[0] ?? null;
+  });
+
+  readonly result = computed(() => {
+    const astValue = this.astService.ast();
+    const parameter = this.parameter();
+    return astValue && parameter ? this.differentiation.tryDifferentiate(astValue, parameter) : null;
+  });
+
+  // Built on the formula's own subtrees; without their ids its nodes are not
+  // mistaken for the formula's when selecting, validating or comparing
+  readonly derivative = computed(() => {
+    const result = this.result();
+    return result?.ok ? withoutNodeIds(result.ast) : null;
+  });
+
+  readonly error = computed(() => {
+    const result = this.result();
+    return result && result.ok === false ? result.error : null;
+  });
+
+  readonly formula = computed(() => this.formulaBuilder.buildFormula(this.derivative()));
+
+  // The slope at the values entered in the parameter panel, when all are bound
+  readonly slope = computed(() => {
+    const derivative = this.derivative();
+    const result = derivative ? this.evaluator.tryEvaluate(derivative, this.evaluator.bindings()) : null;
+    return result?.ok ? result.value : null;
+  });
+
+  onParameterChange(event: Event): void {
+    this.chosenParameter.set((event.target as HTMLSelectElement).value);
+  }
+}
@@ -0,0 +1,47 @@
+import { Component, ChangeDetectionStrategy, computed, inject } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { NODE_CHANGE_KINDS } from '../../models/ast-diff.model';
+import { AstNode } from '../../models/ast-node.model';
+import { AstDiffService } from '../../services/ast-diff.service';
+import { AstManipulatorService } from '../../services/ast-manipulator.service';
+import { FormulaBuilderService } from '../../services/formula-builder.service';
+
+@Component({
+  selector: 'app-diff-panel',
+  standalone: true,
+  imports: [CommonModule],
+  templateUrl: './diff-panel.component.html',
+  styleUrl: './diff-panel.component.scss',
+  changeDetection: ChangeDetectionStrategy.OnPush
+})
+export class DiffPanelComponent {
+
+  private readonly astService = inject(AstManipulatorService);
+  private readonly astDiff = inject(AstDiffService);
+  private readonly formulaBuilder = inject(FormulaBuilderService);
+
+  readonly history = this.astService.history;
+  readonly base = this.astDiff.base;
+  readonly comparison = this.astDiff.comparison;
+
+  readonly counts = computed(() => {
+    const changes = this.comparison()?.changes ?? [];
+    return NODE_CHANGE_KINDS.map(kind => ({
+      kind,
+      count: changes.filter(change => change.kind === kind).length
+    }));
+  });
+
+  readonly removed = computed(() =>
+    (this.comparison()?.removed ?? []).map(node => this.formulaText(node))
+  );
+
+  onBaseChange(event: Event): void {
+    const value = (event.target as HTMLSelectElement).value;
+    this.astDiff.compareWith(value === '' ? null : Number(value));
+  }
+
+  private formulaText(node: AstNode): string {
+    return this.formulaBuilder.buildFormula(node);
+  }
+}
@@ -0,0 +1,77 @@
+import { Component, ChangeDetectionStrategy, inject } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { FormatterOptions } from '../../models/formatter-options.model';
+import { FormulaBuilderService } from '../../services/formula-builder.service';
+
+@Component({
+  selector: 'app-formatter-options',
+  standalone: true,
+  imports: [CommonModule],
+  templateUrl: './formatter-options.component.html',
+  styleUrl: './formatter-options.component.scss',
+  changeDetection: ChangeDetectionStrategy.OnPush
+})
+export class FormatterOptionsComponent {
+
+  private readonly formulaBuilder = inject(FormulaBuilderService);
+
+  readonly options = this.formulaBuilder.displayOptions;
+  readonly browserLocale = typeof navigator !== 'undefined' ? navigator.language : 'en-US';
+
+  readonly separators = [
+    { value: ', ', label: 'a, b' },
+    { value: ',', label: 'a,b' },
+    { value: '; ', label: 'a; b' }
+  ];
+
+  readonly indents = [
+    { value: '  ', label: '2 spaces' },
+    { value: '    ', label: '4 spaces' },
+    { value: '\t', label: 'Tab' }
+  ];
+
+  update(options: Partial<FormatterOptions>): void {
+    this.formulaBuilder.setDisplayOptions(options);
+  }
+
+  onNumberFormatChange(event: Event): void {
+    this.update({ numberFormat: this.valueOf(event) as FormatterOptions['numberFormat'] });
+  }
+
+  onDigitsChange(event: Event): void {
+    const digits = Number(this.valueOf(event));
+    // toPrecision accepts 1 to 100 digits
+    if (Number.isInteger(digits) && digits >= 1 && digits <= 100) {
+      this.update({ significantDigits: digits });
+    }
+  }
+
+  onLocaleChange(event: Event): void {
+    this.update({ locale: this.valueOf(event) || null });
+  }
+
+  onSpacingChange(event: Event): void {
+    this.update({ operatorSpacing: (event.target as HTMLInputElement).checked });
+  }
+
+  onParenthesesChange(event: Event): void {
+    this.update({ parentheses: this.valueOf(event) as FormatterOptions['parentheses'] });
+  }
+
+  onSeparatorChange(event: Event): void {
+    this.update({ argumentSeparator: this.valueOf(event) });
+  }
+
+  onLineWidthChange(event: Event): void {
+    const width = Number(this.valueOf(event));
+    this.update({ lineWidth: Number.isFinite(width) && width > 0 ? Math.floor(width) : 0 });
+  }
+
+  onIndentChange(event: Event): void {
+    this.update({ indent: this.valueOf(event) });
+  }
+
+  private valueOf(event: Event): string {
+    return (event.target as HTMLInputElement | HTMLSelectElement).value;
+  }
+}
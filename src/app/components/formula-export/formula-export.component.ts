@@ -0,0 +1,66 @@
+import { Component, ChangeDetectionStrategy, computed, inject, signal } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { DomSanitizer } from '@angular/platform-browser';
+import { AstManipulatorService } from '../../services/ast-manipulator.service';
+import { FormulaBuilderService } from '../../services/formula-builder.service';
+import { LatexBuilderService } from '../../services/latex-builder.service';
+import { MathmlBuilderService } from '../../services/mathml-builder.service';
+
+type CopyFormat = 'text' | 'latex' | 'mathml';
+
+@Component({
+  selector: 'app-formula-export',
+  standalone: true,
+  imports: [CommonModule],
+  templateUrl: './formula-export.component.html',
+  styleUrl: './formula-export.component.scss',
+  changeDetection: ChangeDetectionStrategy.OnPush
+})
+export class FormulaExportComponent {
+
+  private readonly astService = inject(AstManipulatorService);
+  private readonly formulaBuilder = inject(FormulaBuilderService);
+  private readonly latexBuilder = inject(LatexBuilderService);
+  private readonly mathmlBuilder = inject(MathmlBuilderService);
+  private readonly sanitizer = inject(DomSanitizer);
+
+  readonly formats: { value: CopyFormat; label: string }[] = [
+    { value: 'text', label: 'Plain text' },
+    { value: 'latex', label: 'LaTeX' },
+    { value: 'mathml', label: 'MathML' }
+  ];
+
+  readonly menuOpen = signal(false);
+  readonly status = signal('');
+
+  // The builder escapes every text node, so its markup is safe to render as-is
+  readonly preview = computed(() =>
+    this.sanitizer.bypassSecurityTrustHtml(this.mathmlBuilder.buildMathml(this.astService.ast()))
+  );
+
+  toggleMenu(): void {
+    this.menuOpen.update(open => !open);
+  }
+
+  async copyAs(format: CopyFormat, label: string): Promise<void> {
+    this.menuOpen.set(false);
+    try {
+      await navigator.clipboard.writeText(this.export(format));
+      this.status.set(`Copied as ${label}`);
+    } catch {
+      this.status.set('Copying failed: the clipboard is not available');
+    }
+  }
+
+  private export(format: CopyFormat): string {
+    const ast = this.astService.ast();
+    switch (format) {
+      case 'latex':
+        return this.latexBuilder.buildLatex(ast);
+      case 'mathml':
+        return this.mathmlBuilder.buildMathml(ast);
+      default:
+        return this.formulaBuilder.formatForDisplay(ast);
+    }
+  }
+}
@@ -0,0 +1,40 @@
+import { TestBed } from '@angular/core/testing';
+import { BinaryOperationNode } from '../../models/ast-node.model';
+import { parseFormula } from '../../parser/formula-parser';
+import { AstManipulatorService } from '../../services/ast-manipulator.service';
+import { WorkspaceService } from '../../services/workspace.service';
+import { provideMemoryStorage } from '../../testing/workspace-storage';
+import { FormulaLibraryComponent } from './formula-library.component';
+
+describe('FormulaLibraryComponent', () => {
+  let component: FormulaLibraryComponent;
+  let astService: AstManipulatorService;
+
+  beforeEach(async () => {
+    await TestBed.configureTestingModule({
+      imports: [FormulaLibraryComponent],
+      providers: [provideMemoryStorage()],
+    }).compileComponents();
+
+    component = TestBed.createComponent(FormulaLibraryComponent).componentInstance;
+    astService = TestBed.inject(AstManipulatorService);
+    astService.setAst(parseFormula('SQRT($a) + 1'));
+    astService.deleteNode((astService.ast() as BinaryOperationNode).right.id);
+  });
+
+  it('should save the edited tree', () => {
+    component.name.set('root');
+    component.save();
+
+    const saved = TestBed.inject(WorkspaceService).library().find(entry => entry.name === 'root');
+    expect(saved?.formula).toBe('SQRT($a)');
+  });
+
+  it('should share the edited tree', async () => {
+    // jsdom has no clipboard, so the link is shown instead
+    await component.copyShareLink();
+
+    const url = new URL(component.status().replace('Copy this link: ', ''));
+    expect(url.searchParams.get('f')).toBe('SQRT($a)');
+  });
+});
@@ -0,0 +1,62 @@
+import { Component, ChangeDetectionStrategy, Output, EventEmitter, computed, inject, signal } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { SavedFormula } from '../../models/workspace.model';
+import { WorkspaceService } from '../../services/workspace.service';
+import { FormulaEvaluatorService } from '../../services/formula-evaluator.service';
+import { AstManipulatorService } from '../../services/ast-manipulator.service';
+import { FormulaBuilderService } from '../../services/formula-builder.service';
+
+@Component({
+  selector: 'app-formula-library',
+  standalone: true,
+  imports: [CommonModule],
+  templateUrl: './formula-library.component.html',
+  styleUrl: './formula-library.component.scss',
+  changeDetection: ChangeDetectionStrategy.OnPush
+})
+export class FormulaLibraryComponent {
+  @Output() formulaLoad = new EventEmitter<SavedFormula>();
+
+  private readonly workspace = inject(WorkspaceService);
+  private readonly evaluator = inject(FormulaEvaluatorService);
+  private readonly astService = inject(AstManipulatorService);
+  private readonly formulaBuilder = inject(FormulaBuilderService);
+
+  // The edited tree, not the text it was parsed from
+  readonly formula = computed(() => this.formulaBuilder.buildFormula(this.astService.ast()));
+
+  readonly library = this.workspace.library;
+  readonly name = signal('');
+  readonly status = signal('');
+
+  onNameInput(event: Event): void {
+    this.name.set((event.target as HTMLInputElement).value);
+  }
+
+  save(): void {
+    if (!this.name().trim() || !this.formula()) return;
+
+    this.workspace.saveFormula(this.name(), this.formula(), this.evaluator.bindings());
+    this.status.set(`Saved "${this.name().trim()}"`);
+    this.name.set('');
+  }
+
+  remove(saved: SavedFormula): void {
+    this.workspace.deleteFormula(saved.name);
+    this.status.set(`Removed "${saved.name}"`);
+  }
+
+  async copyShareLink(): Promise<void> {
+    const url = this.workspace.createShareUrl(window.location.href, {
+      formula: this.formula(),
+      bindings: this.evaluator.bindings()
+    });
+
+    try {
+      await navigator.clipboard.writeText(url);
+      this.status.set('Share link copied');
+    } catch {
+      this.status.set(`Copy this link: ${url}`);
+    }
+  }
+}
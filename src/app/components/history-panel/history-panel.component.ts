@@ -0,0 +1,23 @@
+import { Component, ChangeDetectionStrategy, inject } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { AstManipulatorService } from '../../services/ast-manipulator.service';
+
+@Component({
+  selector: 'app-history-panel',
+  standalone: true,
+  imports: [CommonModule],
+  templateUrl: './history-panel.component.html',
+  styleUrl: './history-panel.component.scss',
+  changeDetection: ChangeDetectionStrategy.OnPush
+})
+export class HistoryPanelComponent {
+
+  private readonly astService = inject(AstManipulatorService);
+
+  readonly history = this.astService.history;
+  readonly historyIndex = this.astService.historyIndex;
+
+  jumpToHistory(index: number): void {
+    this.astService.jumpToHistory(index);
+  }
+}
@@ -0,0 +1,155 @@
+import {
+  Component,
+  ChangeDetectionStrategy,
+  ElementRef,
+  Input,
+  Output,
+  EventEmitter,
+  afterNextRender,
+  computed,
+  inject,
+  signal
+} from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { AstNode, BinaryOperationNode, isBinaryOperation, isFunction, isLeafNode } from '../../models/ast-node.model';
+import { getNodeMetadata } from '../../models/node-metadata.model';
+import {
+  BINARY_OPERATORS,
+  CONVERTIBLE_LEAF_TYPES,
+  ConvertibleLeafType,
+  FUNCTION_NAME_PATTERN,
+  NodeEdit,
+  PARAMETER_NAME_PATTERN,
+  REFERENCE_NAME_PATTERN
+} from '../../models/node-edit.model';
+import { FormulaReferenceService } from '../../services/formula-reference.service';
+import { FunctionRegistryService } from '../../services/function-registry.service';
+
+@Component({
+  selector: 'app-node-editor',
+  standalone: true,
+  imports: [CommonModule],
+  templateUrl: './node-editor.component.html',
+  styleUrl: './node-editor.component.scss',
+  changeDetection: ChangeDetectionStrategy.OnPush
+})
+export class NodeEditorComponent {
+
+  private readonly registry = inject(FunctionRegistryService);
+  private readonly references = inject(FormulaReferenceService);
+  private readonly host = inject<ElementRef<HTMLElement>>(ElementRef);
+
+  @Input({ required: true }) node!: AstNode;
+
+  @Output() edit = new EventEmitter<NodeEdit>();
+
+  readonly operators = BINARY_OPERATORS;
+  readonly functions = this.registry.functions;
+  readonly referenceNames = computed(() =>
+    [...this.references.graph().entries.keys()].filter(name => REFERENCE_NAME_PATTERN.test(name))
+  );
+  readonly invalidInput = signal('');
+
+  constructor() {
+    // Opening the editor from the keyboard should land in its first field
+    afterNextRender(() => {
+      this.host.nativeElement.querySelector<HTMLElement>('input, button')?.focus();
+    });
+  }
+
+  get inputId(): string {
+    return `edit-${this.node.id}`;
+  }
+
+  get convertTargets(): ConvertibleLeafType[] {
+    return isLeafNode(this.node)
+      ? CONVERTIBLE_LEAF_TYPES.filter(type => type !== this.node.type)
+      : [];
+  }
+
+  get numberValue(): number | null {
+    return this.node.type === 'NUMBER' ? this.node.value : null;
+  }
+
+  get variableName(): string {
+    return this.node.type === 'VARIABLE' ? this.node.name : '';
+  }
+
+  get referenceName(): string {
+    return this.node.type === 'REFERENCE' ? this.node.name : '';
+  }
+
+  get canInline(): boolean {
+    return this.references.resolve(this.referenceName) !== null;
+  }
+
+  get isBinary(): boolean {
+    return isBinaryOperation(this.node);
+  }
+
+  get functionName(): string {
+    return isFunction(this.node) ? this.node.name : '';
+  }
+
+  label(type: string): string {
+    return getNodeMetadata(type).label;
+  }
+
+  icon(type: string): string {
+    return getNodeMetadata(type).icon;
+  }
+
+  onNumberChange(event: Event): void {
+    const input = event.target as HTMLInputElement;
+    const value = Number(input.value);
+    if (input.value.trim() === '' || !Number.isFinite(value)) {
+      this.invalidInput.set('Enter a finite number');
+      return;
+    }
+    this.emit({ kind: 'number', value });
+  }
+
+  onVariableChange(event: Event): void {
+    const name = (event.target as HTMLInputElement).value.trim().replace(/^\$/, '');
+    if (!PARAMETER_NAME_PATTERN.test(name)) {
+      this.invalidInput.set('Use letters, digits and underscores');
+      return;
+    }
+    this.emit({ kind: 'variable', name });
+  }
+
+  onFunctionChange(event: Event): void {
+    const name = (event.target as HTMLInputElement).value.trim();
+    if (!FUNCTION_NAME_PATTERN.test(name)) {
+      this.invalidInput.set('Function names start with a letter');
+      return;
+    }
+    this.emit({ kind: 'function', name });
+  }
+
+  onReferenceChange(event: Event): void {
+    const name = (event.target as HTMLInputElement).value.trim().replace(/^@/, '');
+    if (!REFERENCE_NAME_PATTERN.test(name)) {
+      this.invalidInput.set('Use letters, digits and underscores');
+      return;
+    }
+    this.emit({ kind: 'reference', name });
+  }
+
+  onInlineClick(): void {
+    this.emit({ kind: 'inline' });
+  }
+
+  onOperatorClick(operator: BinaryOperationNode['type']): void {
+    this.emit({ kind: 'operator', operator });
+  }
+
+  onConvertClick(to: ConvertibleLeafType): void {
+    this.emit({ kind: 'convert', to });
+  }
+
+  private emit(edit: NodeEdit): void {
+    this.invalidInput.set('');
+    this.edit.emit(edit);
+  }
+}
@@ -0,0 +1,55 @@
+import { TestBed } from '@angular/core/testing';
+import { By } from '@angular/platform-browser';
+import { NodeEditEvent } from '../../models/node-edit.model';
+import { parseFormula } from '../../parser/formula-parser';
+import { AstManipulatorService } from '../../services/ast-manipulator.service';
+import { provideMemoryStorage } from '../../testing/workspace-storage';
+import { NodeComponent } from './node.component';
+
+describe('NodeComponent', () => {
+  beforeEach(async () => {
+    await TestBed.configureTestingModule({
+      imports: [NodeComponent],
+      providers: [provideMemoryStorage()],
+    }).compileComponents();
+  });
+
+  it('should pass an edit inside nested function arguments up once', () => {
+    const astService = TestBed.inject(AstManipulatorService);
+    astService.setAst(parseFormula('SQR(ADD(1, 2))'));
+
+    const fixture = TestBed.createComponent(NodeComponent);
+    fixture.componentRef.setInput('node', astService.ast());
+    fixture.componentRef.setInput('isRoot', true);
+    fixture.detectChanges();
+
+    const edits: NodeEditEvent[] = [];
+    fixture.componentInstance.nodeEdit.subscribe((event: NodeEditEvent) => edits.push(event));
+
+    const one = fixture.debugElement.queryAll(By.directive(NodeComponent))
+      .map(element => element.componentInstance as NodeComponent)
+      .find(node => node.node.type === 'NUMBER');
+    one?.onEdit({ kind: 'number', value: 5 });
+
+    expect(edits).toEqual([{ nodeId: one?.nodeId, edit: { kind: 'number', value: 5 } }]);
+  });
+
+  it('should not select or drag the nodes of a read-only tree', () => {
+    const astService = TestBed.inject(AstManipulatorService);
+    astService.setAst(parseFormula('SQR($x)'));
+
+    const fixture = TestBed.createComponent(NodeComponent);
+    fixture.componentRef.setInput('node', astService.ast());
+    fixture.componentRef.setInput('readOnly', true);
+    fixture.detectChanges();
+
+    const clicks: unknown[] = [];
+    fixture.componentInstance.nodeClick.subscribe(event => clicks.push(event));
+    const items = (fixture.nativeElement as HTMLElement).querySelectorAll<HTMLElement>('[role="treeitem"]');
+    items.forEach(item => item.click());
+
+    expect(items.length).toBe(2);
+    expect(clicks).toEqual([]);
+    expect(Array.from(items, item => item.getAttribute('draggable'))).toEqual(['false', 'false']);
+  });
+});
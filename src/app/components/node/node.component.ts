@@ -1,16 +1,36 @@
-import { Component, Input, Output, EventEmitter, ChangeDetectionStrategy, computed, signal } from '@angular/core';
+import { Component, Input, Output, EventEmitter, ChangeDetectionStrategy, computed, inject, signal } from '@angular/core';
 import { CommonModule } from '@angular/common';
 import { AstNode, NodeMetadata, isBinaryOperation, isUnaryOperation, isFunction, isLeafNode } from '../../models/ast-node.model';
+import { getNodeMetadata } from '../../models/node-metadata.model';
+import { InsertAction, NodeInsertEvent, PaletteSelection } from '../../models/block-palette.model';
+import { NodeEdit, NodeEditEvent } from '../../models/node-edit.model';
+import { NodeDropZone, NodeMoveEvent, NodeMovePosition } from '../../models/node-move.model';
+import { NodeSelectEvent, SelectionMode } from '../../models/selection.model';
+import { FormulaValidatorService } from '../../services/formula-validator.service';
+import { FormulaBuilderService } from '../../services/formula-builder.service';
+import { AstManipulatorService } from '../../services/ast-manipulator.service';
+import { AstDiffService } from '../../services/ast-diff.service';
+import { PatternRewriteService } from '../../services/pattern-rewrite.service';
+import { NodeMoveService } from '../../services/node-move.service';
+import { BlockPaletteComponent } from '../block-palette/block-palette.component';
+import { NodeEditorComponent } from '../node-editor/node-editor.component';
 
 @Component({
   selector: 'app-node',
   standalone: true,
-  imports: [CommonModule],
+  imports: [CommonModule, BlockPaletteComponent, NodeEditorComponent],
   templateUrl: './node.component.html',
   styleUrl: './node.component.scss',
   changeDetection: ChangeDetectionStrategy.OnPush
 })
 export class NodeComponent {
+  private readonly validator = inject(FormulaValidatorService);
+  private readonly formulaBuilder = inject(FormulaBuilderService);
+  private readonly astService = inject(AstManipulatorService);
+  private readonly astDiff = inject(AstDiffService);
+  private readonly patternRewrite = inject(PatternRewriteService);
+  private readonly moveService = inject(NodeMoveService);
+
   private _node!: AstNode;
   private nodeSignal = signal<AstNode | null>(null);
   
@@ -24,27 +44,22 @@ export class NodeComponent {
   }
   
   @Input() isRoot = false;
-  @Input() isSelected = false;
+  // Depth in the tree for aria-level, starting at 1 for the root
+  @Input() level = 1;
+  // Shown only, e.g. a derived tree: not selectable, editable or draggable
+  @Input() readOnly = false;
   
-  @Output() nodeClick = new EventEmitter<string>();
+  @Output() nodeClick = new EventEmitter<NodeSelectEvent>();
   @Output() nodeDelete = new EventEmitter<string>();
-  
-  // Node type metadata for visualization
-  private readonly metadata: Record<string, NodeMetadata> = {
-    'ADDITION': { color: '#a8e6cf', icon: '+', label: 'Add', deletable: true },
-    'SUBTRACTION': { color: '#ffd3b6', icon: '-', label: 'Sub', deletable: true },
-    'MULTIPLICATION': { color: '#ffaaa5', icon: '×', label: 'Mul', deletable: true },
-    'DIVISION': { color: '#ff8b94', icon: '÷', label: 'Div', deletable: true },
-    'POWER': { color: '#a8d8ea', icon: '^', label: 'Pow', deletable: true },
-    'NEGATION': { color: '#aa96da', icon: '−', label: 'Neg', deletable: true },
-    'PAREN': { color: '#e1bee7', icon: '( )', label: 'Paren', deletable: true },
-    'FUNCTION': { color: '#ce93d8', icon: 'ƒ', label: 'Func', deletable: true },
-    'NUMBER': { color: '#ffcc80', icon: '#', label: 'Num', deletable: true },
-    'VARIABLE': { color: '#81c784', icon: '$', label: 'Var', deletable: true },
-    'PI': { color: '#4fc3f7', icon: 'π', label: 'Pi', deletable: false },
-    'E': { color: '#4db6ac', icon: 'e', label: 'E', deletable: false }
-  };
+  @Output() nodeInsert = new EventEmitter<NodeInsertEvent>();
+  @Output() nodeEdit = new EventEmitter<NodeEditEvent>();
+  @Output() nodeMove = new EventEmitter<NodeMoveEvent>();
 
+  readonly insertMenuOpen = signal(false);
+  readonly editorOpen = signal(false);
+  // Where the node being dragged over this one would go
+  readonly dropPosition = signal<NodeMovePosition | null>(null);
+  
   get nodeType(): string {
     return this.node?.type || 'UNKNOWN';
   }
@@ -53,15 +68,28 @@ export class NodeComponent {
     return this.node?.id || '';
   }
   
+  // Roving tabindex: only the primary selected node, or the root while nothing is selected, is tabbable
+  get tabIndex(): number {
+    if (this.readOnly) return -1;
+    if (this.isPrimary()) return 0;
+    return this.isRoot && !this.astService.selectedNodeId() ? 0 : -1;
+  }
+
   get nodeMetadata(): NodeMetadata {
-    return this.metadata[this.nodeType] || { 
-      color: '#ccc', 
-      icon: '?', 
-      label: 'Unknown', 
-      deletable: false 
-    };
+    return getNodeMetadata(this.nodeType);
   }
 
+  readonly isSelected = computed(() => {
+    const node = this.nodeSignal();
+    return !!node?.id && this.astService.selectedNodeIds().has(node.id);
+  });
+
+  // The node last selected on its own, which shows the node buttons and editors
+  readonly isPrimary = computed(() => {
+    const node = this.nodeSignal();
+    return !!node?.id && this.astService.selectedNodeId() === node.id;
+  });
+
   readonly isBinary = computed(() => {
     const node = this.nodeSignal();
     return node ? isBinaryOperation(node) : false;
@@ -132,9 +160,55 @@ export class NodeComponent {
     if (node.type === 'VARIABLE') {
       return (node as any).name;
     }
+    if (node.type === 'STRING') {
+      return `'${node.value}'`;
+    }
+    if (node.type === 'ERROR') {
+      return node.text;
+    }
     return '';
   });
 
+  readonly ariaLabel = computed(() => {
+    const node = this.nodeSignal();
+    return node ? this.formulaBuilder.getNodeDescription(node) : '';
+  });
+
+  readonly issues = computed(() => {
+    const node = this.nodeSignal();
+    return node?.id ? this.validator.issuesFor(node.id) : [];
+  });
+
+  // Changes since the history entry chosen for comparison
+  readonly changes = computed(() => {
+    const node = this.nodeSignal();
+    return node?.id ? this.astDiff.marksFor(node.id) : [];
+  });
+
+  readonly changeKinds = computed(() => this.changes().map(change => change.kind));
+
+  // Matched by the pattern in the search and replace panel
+  readonly isPatternMatch = computed(() => {
+    const node = this.nodeSignal();
+    return !!node?.id && this.patternRewrite.isMatched(node.id);
+  });
+
+  // Picked up by dragging or by keyboard
+  readonly isMoving = computed(() => {
+    const node = this.nodeSignal();
+    return !!node?.id && this.moveService.movingId() === node.id;
+  });
+
+  readonly nodeTitle = computed(() => {
+    const node = this.nodeSignal();
+    const messages = this.issues().map(issue => issue.message);
+    if (node?.type === 'ERROR') {
+      messages.unshift(node.message);
+    }
+    messages.push(...this.changes().map(change => change.description));
+    return messages.join('\n');
+  });
+
   readonly operatorSymbol = computed(() => {
     const symbols: Record<string, string> = {
       'ADDITION': '+',
@@ -154,10 +228,88 @@ export class NodeComponent {
     !this.isRoot && this.nodeMetadata.deletable
   );
 
+  readonly isEditable = computed(() => {
+    const node = this.nodeSignal();
+    return !!node && (isBinaryOperation(node) || isFunction(node) || isLeafNode(node));
+  });
+
+  readonly insertActions = computed<InsertAction[]>(() => {
+    const actions: InsertAction[] = ['wrap'];
+    if (this.isLeaf()) actions.push('replace');
+    if (this.isFunction()) actions.push('append');
+    return actions;
+  });
+
   onNodeClick(event: MouseEvent): void {
     event.stopPropagation();
-    if (this.nodeId) {
-      this.nodeClick.emit(this.nodeId);
+    if (this.nodeId && !this.readOnly) {
+      this.nodeClick.emit({ nodeId: this.nodeId, mode: this.selectionMode(event) });
+    }
+  }
+
+  // Enter and Space select the node (Enter also opens the editor), with Ctrl or Shift
+  // as for a click, and Escape closes an open popover; the remaining keys bubble up to
+  // the tree for navigation
+  onNodeKeydown(event: KeyboardEvent): void {
+    if (this.readOnly) return;
+    if (event.key === 'Enter' || event.key === ' ') {
+      event.preventDefault();
+      event.stopPropagation();
+      const mode = this.selectionMode(event);
+      if ((mode !== 'replace' || !this.isPrimary()) && this.nodeId) {
+        this.nodeClick.emit({ nodeId: this.nodeId, mode });
+      }
+      if (event.key === 'Enter' && this.isEditable()) {
+        this.insertMenuOpen.set(false);
+        this.editorOpen.set(true);
+      }
+    } else if (event.key === 'Escape' && (this.insertMenuOpen() || this.editorOpen())) {
+      event.stopPropagation();
+      this.insertMenuOpen.set(false);
+      this.editorOpen.set(false);
+    }
+  }
+
+  onDragStart(event: DragEvent): void {
+    event.stopPropagation();
+    if (this.isRoot || this.readOnly || !this.nodeId) {
+      event.preventDefault();
+      return;
+    }
+
+    event.dataTransfer?.setData('text/plain', this.formulaBuilder.buildFormula(this.node));
+    if (event.dataTransfer) {
+      event.dataTransfer.effectAllowed = 'move';
+    }
+    this.moveService.start(this.nodeId);
+  }
+
+  onDragEnd(): void {
+    this.moveService.cancel();
+  }
+
+  // Accepting the drag (preventDefault) only where the node can go marks the other places as invalid
+  onDragOver(event: DragEvent): void {
+    event.stopPropagation();
+    const position = this.nodeId && !this.readOnly ? this.moveService.positionFor(this.nodeId, this.dropZone(event)) : null;
+    this.dropPosition.set(position);
+    if (position) {
+      event.preventDefault();
+    }
+  }
+
+  onDragLeave(): void {
+    this.dropPosition.set(null);
+  }
+
+  onDrop(event: DragEvent): void {
+    event.preventDefault();
+    event.stopPropagation();
+    const position = this.dropPosition();
+    const movingId = this.moveService.movingId();
+    this.dropPosition.set(null);
+    if (position && movingId) {
+      this.nodeMove.emit({ nodeId: movingId, targetId: this.nodeId, position });
     }
   }
 
@@ -168,11 +320,60 @@ export class NodeComponent {
     }
   }
 
-  onChildNodeClick(nodeId: string): void {
-    this.nodeClick.emit(nodeId);
+  onInsertClick(event: MouseEvent): void {
+    event.stopPropagation();
+    this.editorOpen.set(false);
+    this.insertMenuOpen.update(open => !open);
+  }
+
+  onEditClick(event: MouseEvent): void {
+    event.stopPropagation();
+    this.insertMenuOpen.set(false);
+    this.editorOpen.update(open => !open);
+  }
+
+  onEdit(edit: NodeEdit): void {
+    if (this.nodeId) {
+      this.nodeEdit.emit({ nodeId: this.nodeId, edit });
+    }
+  }
+
+  onBlockSelect(selection: PaletteSelection): void {
+    this.insertMenuOpen.set(false);
+    if (this.nodeId) {
+      this.nodeInsert.emit({ ...selection, nodeId: this.nodeId });
+    }
+  }
+
+  onChildNodeClick(event: NodeSelectEvent): void {
+    this.nodeClick.emit(event);
   }
 
   onChildNodeDelete(nodeId: string): void {
     this.nodeDelete.emit(nodeId);
   }
+
+  onChildNodeInsert(event: NodeInsertEvent): void {
+    this.nodeInsert.emit(event);
+  }
+
+  onChildNodeEdit(event: NodeEditEvent): void {
+    this.nodeEdit.emit(event);
+  }
+
+  onChildNodeMove(event: NodeMoveEvent): void {
+    this.nodeMove.emit(event);
+  }
+
+  private selectionMode(event: MouseEvent | KeyboardEvent): SelectionMode {
+    if (event.shiftKey) return 'range';
+    return event.ctrlKey || event.metaKey ? 'toggle' : 'replace';
+  }
+
+  // The outer quarters of the node, where an argument can be put before or after it
+  private dropZone(event: DragEvent): NodeDropZone {
+    const rect = (event.currentTarget as HTMLElement).getBoundingClientRect();
+    const x = rect.width > 0 ? (event.clientX - rect.left) / rect.width : 0.5;
+    return x < 0.25 ? 'start' : x > 0.75 ? 'end' : 'middle';
+  }
 }
\ No newline at end of file
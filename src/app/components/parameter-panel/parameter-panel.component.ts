@@ -0,0 +1,47 @@
+import { Component, ChangeDetectionStrategy, computed, inject } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { FormulaEvaluatorService } from '../../services/formula-evaluator.service';
+
+@Component({
+  selector: 'app-parameter-panel',
+  standalone: true,
+  imports: [CommonModule],
+  templateUrl: './parameter-panel.component.html',
+  styleUrl: './parameter-panel.component.scss',
+  changeDetection: ChangeDetectionStrategy.OnPush
+})
+export class ParameterPanelComponent {
+
+  private readonly evaluator = inject(FormulaEvaluatorService);
+
+  readonly parameters = this.evaluator.parameters;
+  readonly bindings = this.evaluator.bindings;
+  readonly result = this.evaluator.result;
+
+  readonly value = computed(() => {
+    const result = this.result();
+    return result?.ok ? result.value : null;
+  });
+
+  readonly error = computed(() => {
+    const result = this.result();
+    return result && result.ok === false ? result.error : null;
+  });
+
+  readonly hasParameters = computed(() => this.parameters().length > 0);
+
+  readonly unboundCount = computed(() => {
+    const bindings = this.bindings();
+    return this.parameters().filter(name => bindings[name] === undefined).length;
+  });
+
+  onValueInput(name: string, event: Event): void {
+    const target = event.target as HTMLInputElement;
+    const value = target.value.trim();
+    this.evaluator.setBinding(name, value === '' ? null : Number(value));
+  }
+
+  clearValues(): void {
+    this.evaluator.clearBindings();
+  }
+}
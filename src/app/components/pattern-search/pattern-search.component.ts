@@ -0,0 +1,67 @@
+import { Component, ChangeDetectionStrategy, computed, inject, signal } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { EXAMPLE_RULES, RewriteMode } from '../../models/rewrite-rule.model';
+import { PatternRewriteService } from '../../services/pattern-rewrite.service';
+
+@Component({
+  selector: 'app-pattern-search',
+  standalone: true,
+  imports: [CommonModule],
+  templateUrl: './pattern-search.component.html',
+  styleUrl: './pattern-search.component.scss',
+  changeDetection: ChangeDetectionStrategy.OnPush
+})
+export class PatternSearchComponent {
+
+  private readonly patternRewrite = inject(PatternRewriteService);
+
+  readonly examples = EXAMPLE_RULES;
+  readonly rule = this.patternRewrite.rule;
+  readonly matches = this.patternRewrite.matches;
+
+  readonly compiledRule = computed(() => {
+    const compiled = this.patternRewrite.compiled();
+    return compiled?.ok ? compiled.rule : null;
+  });
+
+  readonly compileError = computed(() => {
+    const compiled = this.patternRewrite.compiled();
+    return compiled?.ok === false ? compiled.error : null;
+  });
+
+  // What the last replacement did
+  readonly status = signal('');
+
+  onPatternInput(event: Event): void {
+    this.patternRewrite.setRule({ pattern: (event.target as HTMLInputElement).value });
+    this.status.set('');
+  }
+
+  onReplacementInput(event: Event): void {
+    this.patternRewrite.setRule({ replacement: (event.target as HTMLInputElement).value });
+    this.status.set('');
+  }
+
+  onExampleChange(event: Event): void {
+    const select = event.target as HTMLSelectElement;
+    const example = this.examples[Number(select.value)];
+    if (example) {
+      this.patternRewrite.setRule({ pattern: example.pattern, replacement: example.replacement });
+      this.status.set('');
+    }
+    select.value = '';
+  }
+
+  replace(mode: RewriteMode): void {
+    const result = this.patternRewrite.apply(mode);
+    if (!result) {
+      this.status.set('Nothing to replace');
+      return;
+    }
+
+    const replaced = `Replaced ${result.applied} ${result.applied === 1 ? 'match' : 'matches'}`;
+    this.status.set(mode === 'repeat' && !result.converged
+      ? `${replaced}; stopped after ${result.passes} passes because the rule keeps applying`
+      : replaced);
+  }
+}
@@ -0,0 +1,62 @@
+import { Component, ChangeDetectionStrategy, computed, inject, signal } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { AstManipulatorService } from '../../services/ast-manipulator.service';
+
+@Component({
+  selector: 'app-selection-actions',
+  standalone: true,
+  imports: [CommonModule],
+  templateUrl: './selection-actions.component.html',
+  styleUrl: './selection-actions.component.scss',
+  changeDetection: ChangeDetectionStrategy.OnPush
+})
+export class SelectionActionsComponent {
+
+  private readonly astService = inject(AstManipulatorService);
+
+  readonly selectedNodeIds = this.astService.selectedNodeIds;
+  readonly canDelete = this.astService.canDelete;
+
+  // The type "Select all" picks, from the node last selected on its own
+  readonly selectedType = computed(() => {
+    const selected = this.astService.selectedNode();
+    return selected ? selected.type.toLowerCase() : null;
+  });
+
+  // Why the last extraction failed
+  readonly error = signal('');
+
+  selectSameType(): void {
+    const selectedId = this.astService.selectedNodeId();
+    if (selectedId) {
+      this.astService.selectSameType(selectedId);
+    }
+  }
+
+  deleteAll(): void {
+    this.astService.deleteNodes(this.ids());
+    this.error.set('');
+  }
+
+  wrap(input: HTMLInputElement): void {
+    this.astService.wrapNodes(this.ids(), input.value);
+    this.error.set('');
+  }
+
+  replaceWithParameter(input: HTMLInputElement): void {
+    this.astService.replaceWithParameter(this.ids(), input.value);
+    this.error.set('');
+  }
+
+  extract(input: HTMLInputElement): void {
+    const error = this.astService.extractFormula(this.ids(), input.value);
+    this.error.set(error ?? '');
+    if (!error) {
+      input.value = '';
+    }
+  }
+
+  private ids(): string[] {
+    return [...this.selectedNodeIds()];
+  }
+}
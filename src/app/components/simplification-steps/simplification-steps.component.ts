@@ -0,0 +1,17 @@
+import { Component, ChangeDetectionStrategy, Input, Output, EventEmitter } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { SimplificationStep } from '../../models/simplification.model';
+
+@Component({
+  selector: 'app-simplification-steps',
+  standalone: true,
+  imports: [CommonModule],
+  templateUrl: './simplification-steps.component.html',
+  styleUrl: './simplification-steps.component.scss',
+  changeDetection: ChangeDetectionStrategy.OnPush
+})
+export class SimplificationStepsComponent {
+  @Input({ required: true }) steps: SimplificationStep[] = [];
+
+  @Output() dismiss = new EventEmitter<void>();
+}
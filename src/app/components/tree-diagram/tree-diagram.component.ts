@@ -0,0 +1,323 @@
+import {
+  Component,
+  ChangeDetectionStrategy,
+  DestroyRef,
+  ElementRef,
+  afterNextRender,
+  computed,
+  inject,
+  signal,
+  viewChild
+} from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { LayoutNode } from '../../models/tree-layout.model';
+import { AstManipulatorService } from '../../services/ast-manipulator.service';
+import { TreeLayoutService } from '../../services/tree-layout.service';
+
+interface Edge {
+  key: string;
+  path: string;
+}
+
+const MIN_SCALE = 0.05;
+const MAX_SCALE = 4;
+const ZOOM_STEP = 1.25;
+const PAN_STEP = 60;
+// Pointer travel, in pixels, after which a press counts as a drag rather than a click
+const DRAG_THRESHOLD = 4;
+const MINIMAP_WIDTH = 180;
+const MINIMAP_HEIGHT = 120;
+
+/**
+ * Draws the tree with the tidy layout on an SVG canvas that can be zoomed,
+ * panned and fitted to the screen. Only boxes inside the viewport are
+ * rendered, so trees with thousands of nodes stay responsive. Subtrees can be
+ * collapsed into one box that shows their formula.
+ */
+@Component({
+  selector: 'app-tree-diagram',
+  standalone: true,
+  imports: [CommonModule],
+  templateUrl: './tree-diagram.component.html',
+  styleUrl: './tree-diagram.component.scss',
+  changeDetection: ChangeDetectionStrategy.OnPush
+})
+export class TreeDiagramComponent {
+
+  private readonly astService = inject(AstManipulatorService);
+  private readonly layoutService = inject(TreeLayoutService);
+
+  private readonly canvas = viewChild.required<ElementRef<SVGSVGElement>>('canvas');
+
+  readonly minimapWidth = MINIMAP_WIDTH;
+  readonly minimapHeight = MINIMAP_HEIGHT;
+
+  readonly selectedNodeIds = this.astService.selectedNodeIds;
+  readonly collapsed = signal<ReadonlySet<string>>(new Set());
+  readonly scale = signal(1);
+  readonly panX = signal(0);
+  readonly panY = signal(0);
+  readonly viewportWidth = signal(0);
+  readonly viewportHeight = signal(0);
+  readonly dragging = signal(false);
+
+  private drag: { pointerId: number; x: number; y: number; moved: boolean } | null = null;
+
+  readonly layout = computed(() =>
+    this.layoutService.layout(this.astService.ast(), { collapsed: this.collapsed() })
+  );
+
+  readonly transform = computed(() => `translate(${this.panX()} ${this.panY()}) scale(${this.scale()})`);
+  readonly zoomPercent = computed(() => Math.round(this.scale() * 100));
+
+  // The visible part of the tree, in tree coordinates
+  readonly viewport = computed(() => {
+    const scale = this.scale();
+    return {
+      x: -this.panX() / scale,
+      y: -this.panY() / scale,
+      width: this.viewportWidth() / scale,
+      height: this.viewportHeight() / scale
+    };
+  });
+
+  readonly visibleNodes = computed(() => {
+    const view = this.viewport();
+    return this.layout().nodes.filter(node =>
+      node.x + node.width >= view.x && node.x <= view.x + view.width &&
+      node.y + node.height >= view.y && node.y <= view.y + view.height
+    );
+  });
+
+  readonly visibleEdges = computed<Edge[]>(() => {
+    const view = this.viewport();
+    const edges: Edge[] = [];
+
+    for (const parent of this.layout().nodes) {
+      for (const child of parent.children) {
+        const x1 = parent.x + parent.width / 2;
+        const x2 = child.x + child.width / 2;
+        const y1 = parent.y + parent.height;
+        const y2 = child.y;
+
+        if (Math.max(x1, x2) >= view.x && Math.min(x1, x2) <= view.x + view.width &&
+          y2 >= view.y && y1 <= view.y + view.height) {
+          const middle = (y1 + y2) / 2;
+          edges.push({
+            key: `${parent.node.id}-${child.node.id}`,
+            path: `M${x1} ${y1} C${x1} ${middle} ${x2} ${middle} ${x2} ${y2}`
+          });
+        }
+      }
+    }
+    return edges;
+  });
+
+  // All boxes as one path, so the minimap costs a single element however large the tree is
+  readonly minimapPath = computed(() =>
+    this.layout().nodes.map(node => `M${node.x} ${node.y}h${node.width}v${node.height}h${-node.width}z`).join('')
+  );
+
+  readonly minimapViewBox = computed(() => {
+    const layout = this.layout();
+    return `0 0 ${Math.max(layout.width, 1)} ${Math.max(layout.height, 1)}`;
+  });
+
+  constructor() {
+    const destroyRef = inject(DestroyRef);
+
+    afterNextRender(() => {
+      const element = this.canvas().nativeElement;
+      this.measureViewport();
+      this.fit();
+
+      if (typeof ResizeObserver !== 'undefined') {
+        const observer = new ResizeObserver(() => this.measureViewport());
+        observer.observe(element);
+        destroyRef.onDestroy(() => observer.disconnect());
+      }
+    });
+  }
+
+  nodeTransform(node: LayoutNode): string {
+    return `translate(${node.x} ${node.y})`;
+  }
+
+  isCollapsible(node: LayoutNode): boolean {
+    return node.children.length > 0 || node.hiddenCount > 0;
+  }
+
+  // Ctrl+click and Shift+click add to the selection as in the nested boxes
+  onNodeClick(node: LayoutNode, event: Event): void {
+    event.stopPropagation();
+    if (node.node.id && !this.drag?.moved) {
+      // Clicks and key presses both carry the modifier keys
+      const { shiftKey, ctrlKey, metaKey } = event as MouseEvent;
+      const mode = shiftKey ? 'range' : ctrlKey || metaKey ? 'toggle' : 'replace';
+      this.astService.selectWith({ nodeId: node.node.id, mode });
+    }
+  }
+
+  toggleCollapse(node: LayoutNode, event: Event): void {
+    event.stopPropagation();
+    const id = node.node.id;
+    if (!id) return;
+
+    this.collapsed.update(collapsed => {
+      const updated = new Set(collapsed);
+      if (!updated.delete(id)) {
+        updated.add(id);
+      }
+      return updated;
+    });
+  }
+
+  expandAll(): void {
+    this.collapsed.set(new Set());
+  }
+
+  zoomIn(): void {
+    this.zoomAt(ZOOM_STEP, this.viewportWidth() / 2, this.viewportHeight() / 2);
+  }
+
+  zoomOut(): void {
+    this.zoomAt(1 / ZOOM_STEP, this.viewportWidth() / 2, this.viewportHeight() / 2);
+  }
+
+  resetZoom(): void {
+    this.zoomAt(1 / this.scale(), this.viewportWidth() / 2, this.viewportHeight() / 2);
+  }
+
+  // Scales the whole tree into view (never above 100%) and centres it
+  fit(): void {
+    const layout = this.layout();
+    if (!layout.root || !this.viewportWidth() || !this.viewportHeight()) return;
+
+    const scale = this.clampScale(Math.min(
+      this.viewportWidth() / layout.width,
+      this.viewportHeight() / layout.height,
+      1
+    ));
+    this.scale.set(scale);
+    this.panX.set((this.viewportWidth() - layout.width * scale) / 2);
+    this.panY.set((this.viewportHeight() - layout.height * scale) / 2);
+  }
+
+  onWheel(event: WheelEvent): void {
+    event.preventDefault();
+    const bounds = this.canvas().nativeElement.getBoundingClientRect();
+    const factor = Math.exp(-event.deltaY * 0.002);
+    this.zoomAt(factor, event.clientX - bounds.left, event.clientY - bounds.top);
+  }
+
+  onPointerDown(event: PointerEvent): void {
+    if (event.button !== 0) return;
+    this.drag = { pointerId: event.pointerId, x: event.clientX, y: event.clientY, moved: false };
+  }
+
+  onPointerMove(event: PointerEvent): void {
+    const drag = this.drag;
+    if (!drag || drag.pointerId !== event.pointerId) return;
+
+    const dx = event.clientX - drag.x;
+    const dy = event.clientY - drag.y;
+    if (!drag.moved && Math.hypot(dx, dy) < DRAG_THRESHOLD) return;
+
+    if (!drag.moved) {
+      drag.moved = true;
+      this.dragging.set(true);
+      this.canvas().nativeElement.setPointerCapture?.(event.pointerId);
+    }
+    this.panX.update(x => x + dx);
+    this.panY.update(y => y + dy);
+    drag.x = event.clientX;
+    drag.y = event.clientY;
+  }
+
+  onPointerUp(event: PointerEvent): void {
+    if (this.drag?.pointerId !== event.pointerId) return;
+    this.dragging.set(false);
+    // Let the click that follows a drag see `moved`, then forget the drag
+    setTimeout(() => this.drag = null);
+  }
+
+  // Arrow keys pan, + and - zoom, 0 fits the tree
+  onCanvasKeydown(event: KeyboardEvent): void {
+    switch (event.key) {
+      case 'ArrowLeft':
+        this.panX.update(x => x + PAN_STEP);
+        break;
+      case 'ArrowRight':
+        this.panX.update(x => x - PAN_STEP);
+        break;
+      case 'ArrowUp':
+        this.panY.update(y => y + PAN_STEP);
+        break;
+      case 'ArrowDown':
+        this.panY.update(y => y - PAN_STEP);
+        break;
+      case '+':
+      case '=':
+        this.zoomIn();
+        break;
+      case '-':
+        this.zoomOut();
+        break;
+      case '0':
+        this.fit();
+        break;
+      default:
+        return;
+    }
+    event.preventDefault();
+  }
+
+  // Centres the main view on the point of the minimap that was clicked
+  onMinimapClick(event: MouseEvent): void {
+    const target = event.currentTarget as SVGSVGElement;
+    const bounds = target.getBoundingClientRect();
+    const layout = this.layout();
+    // The minimap keeps the aspect ratio, so one factor converts both axes
+    const ratio = Math.max(layout.width / bounds.width, layout.height / bounds.height);
+    const offsetX = (bounds.width - layout.width / ratio) / 2;
+    const offsetY = (bounds.height - layout.height / ratio) / 2;
+
+    this.centreOn(
+      (event.clientX - bounds.left - offsetX) * ratio,
+      (event.clientY - bounds.top - offsetY) * ratio
+    );
+  }
+
+  onMinimapKeydown(event: KeyboardEvent): void {
+    if (event.key === 'Enter' || event.key === ' ') {
+      event.preventDefault();
+      this.fit();
+    }
+  }
+
+  private centreOn(x: number, y: number): void {
+    this.panX.set(this.viewportWidth() / 2 - x * this.scale());
+    this.panY.set(this.viewportHeight() / 2 - y * this.scale());
+  }
+
+  // Zooms keeping the tree point under (screenX, screenY) in place
+  private zoomAt(factor: number, screenX: number, screenY: number): void {
+    const previous = this.scale();
+    const next = this.clampScale(previous * factor);
+    const applied = next / previous;
+
+    this.scale.set(next);
+    this.panX.update(x => screenX - (screenX - x) * applied);
+    this.panY.update(y => screenY - (screenY - y) * applied);
+  }
+
+  private clampScale(scale: number): number {
+    return Math.min(MAX_SCALE, Math.max(MIN_SCALE, scale));
+  }
+
+  private measureViewport(): void {
+    const element = this.canvas().nativeElement;
+    this.viewportWidth.set(element.clientWidth);
+    this.viewportHeight.set(element.clientHeight);
+  }
+}
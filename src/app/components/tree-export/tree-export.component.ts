@@ -0,0 +1,46 @@
+import { Component, ChangeDetectionStrategy, inject, signal } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { AstManipulatorService } from '../../services/ast-manipulator.service';
+import { TreeExportService } from '../../services/tree-export.service';
+
+@Component({
+  selector: 'app-tree-export',
+  standalone: true,
+  imports: [CommonModule],
+  templateUrl: './tree-export.component.html',
+  styleUrl: './tree-export.component.scss',
+  changeDetection: ChangeDetectionStrategy.OnPush
+})
+export class TreeExportComponent {
+
+  private readonly astService = inject(AstManipulatorService);
+  private readonly exportService = inject(TreeExportService);
+
+  readonly scales = [1, 2, 3, 4];
+
+  readonly scale = signal(2);
+  readonly exporting = signal(false);
+  readonly error = signal('');
+
+  onScaleChange(event: Event): void {
+    this.scale.set(Number((event.target as HTMLSelectElement).value));
+  }
+
+  exportSvg(): void {
+    this.error.set('');
+    this.exportService.download(this.exportService.toSvg(this.astService.ast()), 'formula-tree.svg');
+  }
+
+  async exportPng(): Promise<void> {
+    this.error.set('');
+    this.exporting.set(true);
+    try {
+      const png = await this.exportService.toPng(this.astService.ast(), this.scale());
+      this.exportService.download(png, 'formula-tree.png');
+    } catch (error) {
+      this.error.set(error instanceof Error ? error.message : 'PNG export failed');
+    } finally {
+      this.exporting.set(false);
+    }
+  }
+}
@@ -0,0 +1,10 @@
+import { Component, ChangeDetectionStrategy } from '@angular/core';
+
+@Component({
+  selector: 'app-tree-legend',
+  standalone: true,
+  templateUrl: './tree-legend.component.html',
+  styleUrl: './tree-legend.component.scss',
+  changeDetection: ChangeDetectionStrategy.OnPush
+})
+export class TreeLegendComponent {}
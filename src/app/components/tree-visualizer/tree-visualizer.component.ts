@@ -1,13 +1,59 @@
-import { Component, ChangeDetectionStrategy, computed, inject, effect } from '@angular/core';
+import {
+  Component,
+  ChangeDetectionStrategy,
+  ElementRef,
+  HostListener,
+  Injector,
+  afterNextRender,
+  computed,
+  inject,
+  effect,
+  signal
+} from '@angular/core';
 import { CommonModule } from '@angular/common';
-import { AstManipulatorService } from '../../services/ast-manipulator.service';
+import { AstManipulatorService, DeletionStrategy, WrapperType } from '../../services/ast-manipulator.service';
+import { BlockPaletteService } from '../../services/block-palette.service';
+import { NodeInsertEvent } from '../../models/block-palette.model';
+import { NodeEditEvent } from '../../models/node-edit.model';
 import { FormulaBuilderService } from '../../services/formula-builder.service';
+import { TypeCheckerService } from '../../services/type-checker.service';
+import { FormulaValidatorService } from '../../services/formula-validator.service';
+import { SimplifierService } from '../../services/simplifier.service';
+import { ClipboardService } from '../../services/clipboard.service';
+import { ClipboardPasteResult } from '../../models/clipboard.model';
+import { NodeMoveService } from '../../services/node-move.service';
+import { NodeMoveEvent } from '../../models/node-move.model';
+import { NodeSelectEvent } from '../../models/selection.model';
+import { SimplificationStep } from '../../models/simplification.model';
 import { NodeComponent } from '../node/node.component';
+import { HistoryPanelComponent } from '../history-panel/history-panel.component';
+import { TreeLegendComponent } from '../tree-legend/tree-legend.component';
+import { SimplificationStepsComponent } from '../simplification-steps/simplification-steps.component';
+import { FormulaExportComponent } from '../formula-export/formula-export.component';
+import { TreeExportComponent } from '../tree-export/tree-export.component';
+import { TreeDiagramComponent } from '../tree-diagram/tree-diagram.component';
+import { FormatterOptionsComponent } from '../formatter-options/formatter-options.component';
+import { DiffPanelComponent } from '../diff-panel/diff-panel.component';
+import { PatternSearchComponent } from '../pattern-search/pattern-search.component';
+import { SelectionActionsComponent } from '../selection-actions/selection-actions.component';
 
 @Component({
   selector: 'app-tree-visualizer',
   standalone: true,
-  imports: [CommonModule, NodeComponent],
+  imports: [
+    CommonModule,
+    NodeComponent,
+    HistoryPanelComponent,
+    TreeLegendComponent,
+    SimplificationStepsComponent,
+    FormulaExportComponent,
+    TreeExportComponent,
+    TreeDiagramComponent,
+    FormatterOptionsComponent,
+    DiffPanelComponent,
+    PatternSearchComponent,
+    SelectionActionsComponent
+  ],
   templateUrl: './tree-visualizer.component.html',
   styleUrl: './tree-visualizer.component.scss',
   changeDetection: ChangeDetectionStrategy.OnPush
@@ -16,12 +62,48 @@ export class TreeVisualizerComponent {
 
   private readonly astService = inject(AstManipulatorService);
   private readonly formulaBuilder = inject(FormulaBuilderService);
+  private readonly palette = inject(BlockPaletteService);
+  private readonly typeChecker = inject(TypeCheckerService);
+  private readonly validator = inject(FormulaValidatorService);
+  private readonly simplifier = inject(SimplifierService);
+  private readonly clipboard = inject(ClipboardService);
+  private readonly moveService = inject(NodeMoveService);
+  private readonly host = inject<ElementRef<HTMLElement>>(ElementRef);
+  private readonly injector = inject(Injector);
 
   readonly ast = this.astService.ast;
   readonly selectedNodeId = this.astService.selectedNodeId;
+  readonly selectedNodeIds = this.astService.selectedNodeIds;
   readonly nodeCount = this.astService.nodeCount;
   readonly treeDepth = this.astService.treeDepth;
   readonly canDelete = this.astService.canDelete;
+  readonly canUndo = this.astService.canUndo;
+  readonly canRedo = this.astService.canRedo;
+  readonly deletionStrategy = this.astService.deletionStrategy;
+  readonly placeholderCount = this.astService.placeholderCount;
+  readonly isComplete = this.astService.isComplete;
+  // Empty slots count as issues too
+  readonly issueCount = computed(() => this.validator.issues().length);
+
+  // Editable nested boxes, or the zoomable diagram for large trees
+  readonly viewMode = signal<'boxes' | 'diagram'>('boxes');
+
+  readonly viewModes: { value: 'boxes' | 'diagram'; label: string }[] = [
+    { value: 'boxes', label: 'Boxes' },
+    { value: 'diagram', label: 'Diagram' }
+  ];
+
+  // Outcome of the last copy, cut, paste, duplicate or move
+  readonly editStatus = signal('');
+
+  // Steps of the last simplification, kept on screen for review until dismissed
+  readonly simplificationSteps = signal<SimplificationStep[]>([]);
+
+  readonly deletionStrategies: { value: DeletionStrategy; label: string }[] = [
+    { value: 'collapse', label: 'Collapse to sibling' },
+    { value: 'hole', label: 'Leave empty slot' },
+    { value: 'parent', label: 'Delete parent' }
+  ];
   
   constructor() {
     //Log when AST changes
@@ -33,17 +115,22 @@ export class TreeVisualizerComponent {
 
   readonly reconstructedFormula = computed(() => {
     const astValue = this.ast();
-    return astValue ? this.formulaBuilder.buildFormula(astValue) : '';
+    return astValue ? this.formulaBuilder.formatForDisplay(astValue) : '';
   });
 
   readonly selectedNodeDescription = computed(() => {
     const selected = this.astService.selectedNode();
-    return selected ? this.formulaBuilder.getNodeDescription(selected) : null;
+    const count = this.selectedNodeIds().size;
+    if (count > 1) return `${count} nodes`;
+    if (!selected) return null;
+
+    const description = this.formulaBuilder.getNodeDescription(selected);
+    return `${description} (type: ${this.typeChecker.typeOf(selected.id)})`;
   });
 
-  onNodeClick(nodeId: string): void {
-    console.log('Node clicked:', nodeId);
-    this.astService.selectNode(nodeId);
+  onNodeClick(event: NodeSelectEvent): void {
+    console.log('Node clicked:', event.nodeId);
+    this.astService.selectWith(event);
   }
 
   onNodeDelete(nodeId: string): void {
@@ -51,10 +138,98 @@ export class TreeVisualizerComponent {
     this.astService.deleteNode(nodeId);
   }
 
+  onNodeInsert({ nodeId, action, block }: NodeInsertEvent): void {
+    switch (action) {
+      case 'wrap':
+        this.astService.wrapNode(nodeId, block.type as WrapperType, block.functionName);
+        break;
+      case 'replace':
+        this.astService.replaceNode(nodeId, this.palette.createLeaf(block));
+        break;
+      case 'append':
+        this.astService.appendArgument(nodeId, this.palette.createLeaf(block));
+        break;
+    }
+  }
+
+  onNodeEdit({ nodeId, edit }: NodeEditEvent): void {
+    switch (edit.kind) {
+      case 'number':
+        this.astService.updateNumber(nodeId, edit.value);
+        break;
+      case 'variable':
+        this.astService.renameVariable(nodeId, edit.name);
+        break;
+      case 'operator':
+        this.astService.changeOperator(nodeId, edit.operator);
+        break;
+      case 'function':
+        this.astService.renameFunction(nodeId, edit.name);
+        break;
+      case 'reference':
+        this.astService.renameReference(nodeId, edit.name);
+        break;
+      case 'inline':
+        this.astService.inlineReference(nodeId);
+        break;
+      case 'convert':
+        this.astService.convertLeaf(nodeId, edit.to);
+        break;
+    }
+  }
+
+  onNodeMove({ nodeId, targetId, position }: NodeMoveEvent): void {
+    this.moveService.cancel();
+    if (this.astService.moveNode(nodeId, targetId, position)) {
+      this.editStatus.set('');
+      this.selectAndFocus(nodeId);
+    }
+  }
+
   deleteSelected(): void {
+    this.astService.deleteNodes([...this.selectedNodeIds()]);
+  }
+
+  async copySelected(): Promise<void> {
+    const selectedId = this.selectedNodeId();
+    if (!selectedId) return;
+    try {
+      const payload = await this.clipboard.copy(selectedId);
+      this.editStatus.set(payload ? `Copied ${payload.formula}` : '');
+    } catch {
+      this.editStatus.set('Copying failed: the clipboard is not available');
+    }
+  }
+
+  async cutSelected(): Promise<void> {
     const selectedId = this.selectedNodeId();
-    if (selectedId) {
-      this.astService.deleteNode(selectedId);
+    if (!selectedId) return;
+    try {
+      const payload = await this.clipboard.cut(selectedId);
+      this.editStatus.set(payload ? `Cut ${payload.formula}` : '');
+    } catch {
+      this.editStatus.set('Cutting failed: the clipboard is not available');
+    }
+  }
+
+  async pasteOverSelected(): Promise<void> {
+    const selectedId = this.selectedNodeId();
+    if (!selectedId) return;
+    try {
+      this.showPasted(await this.clipboard.pasteFromSystem(selectedId));
+    } catch {
+      this.editStatus.set('Pasting failed: the clipboard cannot be read');
+    }
+  }
+
+  duplicateSelected(): void {
+    const selectedId = this.selectedNodeId();
+    const copyId = selectedId ? this.astService.duplicateNode(selectedId) : null;
+    if (copyId) {
+      this.editStatus.set('');
+      this.selectAndFocus(copyId);
+    } else if (selectedId) {
+      this.editStatus.set('No room for a copy: duplicate a function argument or leave an empty slot');
     }
   }
 
@@ -64,5 +239,203 @@ export class TreeVisualizerComponent {
 
   clearTree(): void {
     this.astService.clearAst();
+    this.simplificationSteps.set([]);
+  }
+
+  // Runs only on request; simplifying the tree after every edit just to enable the button costs too much
+  simplify(): void {
+    const result = this.simplifier.simplify(this.ast());
+    const applied = result.changed && this.astService.execute({
+      description: `Simplified to ${this.formulaBuilder.buildFormula(result.ast)}`,
+      execute: () => result.ast
+    });
+
+    if (applied) {
+      this.simplificationSteps.set(result.steps);
+    }
+    this.editStatus.set(applied ? '' : 'The formula cannot be simplified any further');
+  }
+
+  dismissSimplificationSteps(): void {
+    this.simplificationSteps.set([]);
+  }
+
+  onDeletionStrategyChange(event: Event): void {
+    this.astService.setDeletionStrategy((event.target as HTMLSelectElement).value as DeletionStrategy);
+  }
+
+  undo(): void {
+    this.astService.undo();
+  }
+
+  redo(): void {
+    this.astService.redo();
+  }
+
+  // Arrow keys, Delete and Escape pressed on a focused tree item bubble up to here
+  @HostListener('keydown', ['$event'])
+  onTreeKeydown(event: KeyboardEvent): void {
+    // Keys typed into a node's editor or palette are not navigation
+    if (!(event.target instanceof HTMLElement) || event.target.getAttribute('role') !== 'treeitem') {
+      return;
+    }
+
+    // Alt+Left/Right move the node itself among its siblings
+    if (event.altKey && (event.key === 'ArrowLeft' || event.key === 'ArrowRight')) {
+      event.preventDefault();
+      const nodeId = this.treeItemId(event.target);
+      if (nodeId && this.astService.moveWithinParent(nodeId, event.key === 'ArrowLeft' ? -1 : 1)) {
+        this.selectAndFocus(nodeId);
+      }
+      return;
+    }
+
+    let focusId: string | null = null;
+    switch (event.key) {
+      case 'ArrowUp':
+        focusId = this.astService.selectParent();
+        break;
+      case 'ArrowDown':
+        focusId = this.astService.selectFirstChild();
+        break;
+      case 'ArrowLeft':
+        focusId = this.astService.selectSibling(-1);
+        break;
+      case 'ArrowRight':
+        focusId = this.astService.selectSibling(1);
+        break;
+      case 'Delete':
+      case 'Backspace':
+        if (!this.canDelete()) return;
+        this.deleteSelected();
+        // The focused node is gone; continue from the root
+        focusId = this.ast()?.id ?? null;
+        break;
+      case 'Escape':
+        if (this.moveService.movingId()) {
+          this.moveService.cancel();
+          this.editStatus.set('');
+        } else {
+          this.clearSelection();
+        }
+        break;
+      case 'm':
+        focusId = this.pickUpOrDrop(this.treeItemId(event.target));
+        break;
+      case 'd':
+        if (!(event.ctrlKey || event.metaKey)) return;
+        this.duplicateSelected();
+        break;
+      default:
+        return;
+    }
+
+    event.preventDefault();
+    if (focusId) {
+      this.focusNode(focusId);
+    }
+  }
+
+  // Ctrl+C, Ctrl+X and Ctrl+V on a focused tree item act on its subtree
+  @HostListener('copy', ['$event'])
+  @HostListener('cut', ['$event'])
+  onTreeClipboard(event: ClipboardEvent): void {
+    const nodeId = this.treeItemId(event.target);
+    if (!nodeId || !event.clipboardData || !this.clipboard.writeTo(event.clipboardData, nodeId)) {
+      return;
+    }
+
+    event.preventDefault();
+    this.editStatus.set(`${event.type === 'cut' ? 'Cut' : 'Copied'} ${this.clipboard.copied()?.formula}`);
+    if (event.type === 'cut' && this.ast()?.id !== nodeId) {
+      this.astService.deleteNode(nodeId);
+      this.focusNode(this.ast()?.id ?? '');
+    }
+  }
+
+  @HostListener('paste', ['$event'])
+  onTreePaste(event: ClipboardEvent): void {
+    const nodeId = this.treeItemId(event.target);
+    if (!nodeId || !event.clipboardData) {
+      return;
+    }
+
+    event.preventDefault();
+    this.showPasted(this.clipboard.pasteFrom(event.clipboardData, nodeId));
+  }
+
+  @HostListener('document:keydown', ['$event'])
+  onDocumentKeydown(event: KeyboardEvent): void {
+    // Leave text fields to their own native undo
+    if (this.isEditableTarget(event.target) || !(event.ctrlKey || event.metaKey)) {
+      return;
+    }
+
+    const key = event.key.toLowerCase();
+    if (key === 'z' && !event.shiftKey) {
+      event.preventDefault();
+      this.undo();
+    } else if ((key === 'z' && event.shiftKey) || key === 'y') {
+      event.preventDefault();
+      this.redo();
+    }
+  }
+
+  // M picks the focused node up, and M on another node drops it there: into an empty
+  // slot, otherwise swapping the two. Returns the node to focus afterwards.
+  private pickUpOrDrop(nodeId: string | null): string | null {
+    const movingId = this.moveService.movingId();
+    if (!nodeId) return null;
+
+    if (!movingId || movingId === nodeId) {
+      this.moveService.start(nodeId);
+      this.editStatus.set(`Moving ${this.describeNode(nodeId)}: press M on another node to drop it there, Escape to cancel`);
+      return null;
+    }
+
+    const position = this.moveService.positionFor(nodeId, 'middle') ?? 'swap';
+    const error = this.moveService.dropOn(nodeId, position);
+    this.editStatus.set(error ?? '');
+    if (error) return null;
+
+    this.astService.selectNode(movingId);
+    return movingId;
+  }
+
+  private describeNode(nodeId: string): string {
+    const node = this.astService.findNode(nodeId);
+    return node ? this.formulaBuilder.buildFormula(node) : '';
+  }
+
+  private showPasted(result: ClipboardPasteResult): void {
+    if (result.ok === false) {
+      this.editStatus.set(result.error);
+      return;
+    }
+    this.editStatus.set('');
+    this.selectAndFocus(result.nodeId);
+  }
+
+  private selectAndFocus(nodeId: string): void {
+    this.astService.selectNode(nodeId);
+    this.focusNode(nodeId);
+  }
+
+  private treeItemId(target: EventTarget | null): string | null {
+    return target instanceof HTMLElement && target.getAttribute('role') === 'treeitem'
+      ? target.getAttribute('data-node-id')
+      : null;
+  }
+
+  // Focuses the node once it has been rendered with its new tabindex
+  private focusNode(nodeId: string): void {
+    afterNextRender(() => {
+      this.host.nativeElement.querySelector<HTMLElement>(`[data-node-id="${nodeId}"]`)?.focus();
+    }, { injector: this.injector });
+  }
+
+  private isEditableTarget(target: EventTarget | null): boolean {
+    return target instanceof HTMLElement &&
+      (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName));
   }
 }
\ No newline at end of file
@@ -0,0 +1,28 @@
+import { AstNode } from './ast-node.model';
+
+export type NodeChangeKind = 'inserted' | 'deleted' | 'changed' | 'moved';
+
+// One node's change; a node that moved and changed has two entries
+export interface NodeChange {
+  kind: NodeChangeKind;
+  // The node in the old tree; missing for insertions
+  before?: AstNode;
+  // The node in the new tree; missing for deletions
+  after?: AstNode;
+  description: string;
+}
+
+export interface TextDiffSegment {
+  kind: 'equal' | 'inserted' | 'deleted';
+  text: string;
+}
+
+export interface AstDiff {
+  changes: NodeChange[];
+  // Tops of the deleted subtrees, which have no place in the new tree
+  removed: AstNode[];
+  // Token diff of the printed formulas
+  text: TextDiffSegment[];
+}
+
+export const NODE_CHANGE_KINDS: NodeChangeKind[] = ['inserted', 'deleted', 'changed', 'moved'];
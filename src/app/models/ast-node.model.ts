@@ -1,7 +1,13 @@
+// Half-open range [start, end) of offsets into the parsed formula string
+export interface SourceSpan {
+  start: number;
+  end: number;
+}
+
 export interface BaseAstNode {
   type: string;
   id?: string;
-  selected?: boolean;
+  span?: SourceSpan;
 }
 
 export interface BinaryOperationNode extends BaseAstNode {
@@ -31,23 +37,66 @@ export interface VariableNode extends BaseAstNode {
   name: string;
 }
 
+export interface StringNode extends BaseAstNode {
+  type: 'STRING';
+  value: string;
+}
+
 export interface ConstantNode extends BaseAstNode {
   type: 'PI' | 'E';
 }
 
+// Another named formula of the workspace, written @name; the name is kept without the '@'
+export interface ReferenceNode extends BaseAstNode {
+  type: 'REFERENCE';
+  name: string;
+}
+
+// What a wildcard may stand for; without a kind it matches any subtree
+export type WildcardKind = 'number' | 'constant' | 'parameter' | 'function';
+
+export const WILDCARD_KINDS: WildcardKind[] = ['number', 'constant', 'parameter', 'function'];
+
+// A named hole in a search pattern or rewrite rule, written ?name or ?name:kind
+export interface WildcardNode extends BaseAstNode {
+  type: 'WILDCARD';
+  name: string;
+  kind?: WildcardKind;
+}
+
+// Stands in for a region of the input the parser could not make sense of
+export interface ErrorNode extends BaseAstNode {
+  type: 'ERROR';
+  message: string;
+  text: string;
+}
+
+// An empty slot left by an edit; the formula is incomplete until it is filled
+export interface PlaceholderNode extends BaseAstNode {
+  type: 'PLACEHOLDER';
+}
+
 export type AstNode =
   | BinaryOperationNode 
   | UnaryOperationNode 
   | FunctionNode 
   | NumberNode 
   | VariableNode 
-  | ConstantNode;
+  | StringNode
+  | ConstantNode
+  | ReferenceNode
+  | WildcardNode
+  | ErrorNode
+  | PlaceholderNode;
+
+export type NodeCategory = 'binary' | 'unary' | 'function' | 'leaf';
 
 export interface NodeMetadata {
   color: string;
   icon: string;
   label: string;
   deletable: boolean;
+  category: NodeCategory;
 }
 
 // Type guards for safe type checking
@@ -64,5 +113,51 @@ export const isFunction = (node: AstNode): node is FunctionNode => {
 };
 
 export const isLeafNode = (node: AstNode): boolean => {
-  return ['NUMBER', 'VARIABLE', 'PI', 'E'].includes(node.type);
-};
\ No newline at end of file
+  return ['NUMBER', 'VARIABLE', 'STRING', 'PI', 'E', 'REFERENCE', 'WILDCARD', 'ERROR', 'PLACEHOLDER'].includes(node.type);
+};
+
+// Direct children in display order: left/right, the operand, or the arguments
+export const getChildNodes = (node: AstNode): AstNode[] => {
+  if (isBinaryOperation(node)) return [node.left, node.right];
+  if (isUnaryOperation(node)) return [node.expression];
+  if (isFunction(node)) return node.arguments;
+  return [];
+};
+
+// A shallow copy of the node with each direct child replaced by what map returns for it
+export const mapChildNodes = (node: AstNode, map: (child: AstNode) => AstNode): AstNode => {
+  if (isBinaryOperation(node)) return { ...node, left: map(node.left), right: map(node.right) };
+  if (isUnaryOperation(node)) return { ...node, expression: map(node.expression) };
+  if (isFunction(node)) return { ...node, arguments: node.arguments.map(arg => map(arg)) };
+  return { ...node };
+};
+
+// Editor state that does not affect what a node means; trees saved before the
+// selection moved out of the tree may still carry a `selected` flag
+const NODE_STATE_KEYS = ['id', 'selected', 'span'];
+
+// Compares two trees by meaning, ignoring ids, selection and source spans
+export const isStructurallyEqual = (a: unknown, b: unknown): boolean => {
+  if (a === b) return true;
+  if (typeof a !== 'object' || typeof b !== 'object' || a === null || b === null) return false;
+
+  if (Array.isArray(a) || Array.isArray(b)) {
+    return Array.isArray(a) && Array.isArray(b) &&
+      a.length === b.length && a.every((item, index) => isStructurallyEqual(item, b[index]));
+  }
+
+  const keys = (node: object) => Object.keys(node).filter(key => !NODE_STATE_KEYS.includes(key)).sort();
+  const aKeys = keys(a);
+  const bKeys = keys(b);
+  return aKeys.length === bKeys.length && aKeys.every((key, index) =>
+    key === bKeys[index] &&
+    isStructurallyEqual((a as Record<string, unknown>)[key], (b as Record<string, unknown>)[key])
+  );
+};
+
+// A copy of the tree without node ids, e.g. for a tree shown next to the edited one
+export const withoutNodeIds = (node: AstNode): AstNode => {
+  const copy = mapChildNodes(node, withoutNodeIds);
+  delete copy.id;
+  return copy;
+};
@@ -0,0 +1,71 @@
+import {
+  AstNode,
+  BinaryOperationNode,
+  ConstantNode,
+  ErrorNode,
+  FunctionNode,
+  NumberNode,
+  PlaceholderNode,
+  ReferenceNode,
+  StringNode,
+  UnaryOperationNode,
+  VariableNode,
+  WildcardNode,
+  isBinaryOperation,
+  isFunction,
+  isUnaryOperation
+} from './ast-node.model';
+
+// One method per node kind; `parent` lets printers decide on parentheses
+export interface AstVisitor<T> {
+  visitBinaryOperation(node: BinaryOperationNode, parent?: AstNode): T;
+  visitUnaryOperation(node: UnaryOperationNode, parent?: AstNode): T;
+  visitFunction(node: FunctionNode, parent?: AstNode): T;
+  visitNumber(node: NumberNode, parent?: AstNode): T;
+  visitVariable(node: VariableNode, parent?: AstNode): T;
+  visitString(node: StringNode, parent?: AstNode): T;
+  visitConstant(node: ConstantNode, parent?: AstNode): T;
+  visitReference(node: ReferenceNode, parent?: AstNode): T;
+  visitWildcard(node: WildcardNode, parent?: AstNode): T;
+  visitError(node: ErrorNode, parent?: AstNode): T;
+  visitPlaceholder(node: PlaceholderNode, parent?: AstNode): T;
+}
+
+export const visitAst = <T>(visitor: AstVisitor<T>, node: AstNode, parent?: AstNode): T => {
+  if (isBinaryOperation(node)) {
+    return visitor.visitBinaryOperation(node, parent);
+  }
+
+  if (isUnaryOperation(node)) {
+    return visitor.visitUnaryOperation(node, parent);
+  }
+
+  if (isFunction(node)) {
+    return visitor.visitFunction(node, parent);
+  }
+
+  switch (node.type) {
+    case 'NUMBER':
+      return visitor.visitNumber(node, parent);
+    case 'VARIABLE':
+      return visitor.visitVariable(node, parent);
+    case 'STRING':
+      return visitor.visitString(node, parent);
+    case 'PI':
+    case 'E':
+      return visitor.visitConstant(node, parent);
+    case 'REFERENCE':
+      return visitor.visitReference(node, parent);
+    case 'WILDCARD':
+      return visitor.visitWildcard(node, parent);
+    case 'ERROR':
+      return visitor.visitError(node, parent);
+    case 'PLACEHOLDER':
+      return visitor.visitPlaceholder(node, parent);
+    default: {
+      // Trees from older saves or other tools may contain types this build does not know
+      const unknown = node as AstNode;
+      return visitor.visitError({ type: 'ERROR', message: `Unknown node type ${unknown.type}`, text: '' }, parent);
+    }
+  }
+};
@@ -0,0 +1,24 @@
+import { AstNode, NodeCategory } from './ast-node.model';
+
+export type InsertAction = 'wrap' | 'replace' | 'append';
+
+export interface PaletteBlock {
+  // Unique within the palette, e.g. 'ADDITION' or 'FUNCTION:SQRT'
+  key: string;
+  type: AstNode['type'];
+  category: NodeCategory;
+  label: string;
+  icon: string;
+  color: string;
+  functionName?: string;
+  description?: string;
+}
+
+export interface PaletteSelection {
+  action: InsertAction;
+  block: PaletteBlock;
+}
+
+export interface NodeInsertEvent extends PaletteSelection {
+  nodeId: string;
+}
@@ -0,0 +1,19 @@
+import { AstNode } from './ast-node.model';
+
+// Data type of the tree on the clipboard, next to its formula as plain text
+export const AST_CLIPBOARD_TYPE = 'application/json';
+
+// A subtree as it is put on the clipboard, without ids, selection or source spans
+export interface ClipboardPayload {
+  formula: string;
+  json: string;
+}
+
+export type ClipboardReadResult =
+  | { ok: true; node: AstNode; source: 'json' | 'text' }
+  | { ok: false; error: string };
+
+// The id of the pasted subtree's root, which the tree selects
+export type ClipboardPasteResult =
+  | { ok: true; nodeId: string }
+  | { ok: false; error: string };
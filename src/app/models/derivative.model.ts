@@ -0,0 +1,6 @@
+import { AstNode } from './ast-node.model';
+import { EvaluationError } from './evaluation.model';
+
+export type DerivativeResult =
+  | { ok: true; ast: AstNode }
+  | { ok: false; error: EvaluationError };
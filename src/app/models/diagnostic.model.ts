@@ -0,0 +1,24 @@
+import { AstNode, SourceSpan } from './ast-node.model';
+
+export type DiagnosticSeverity = 'error' | 'warning';
+
+export interface ParseDiagnostic {
+  severity: DiagnosticSeverity;
+  message: string;
+  // Human-readable descriptions of the tokens that would have been valid here
+  expected: string[];
+  span: SourceSpan;
+  // 1-based position of span.start
+  line: number;
+  column: number;
+}
+
+export interface ParseResult {
+  // Null only when nothing in the input could be parsed at all
+  ast: AstNode | null;
+  diagnostics: ParseDiagnostic[];
+}
+
+export const hasErrors = (diagnostics: ParseDiagnostic[]): boolean => {
+  return diagnostics.some(diagnostic => diagnostic.severity === 'error');
+};
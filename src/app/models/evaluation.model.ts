@@ -0,0 +1,33 @@
+export type EvaluationErrorCode =
+  | 'UNBOUND_PARAMETER'
+  | 'UNKNOWN_FUNCTION'
+  | 'UNKNOWN_REFERENCE'
+  | 'CIRCULAR_REFERENCE'
+  | 'WRONG_ARITY'
+  | 'DOMAIN_ERROR'
+  | 'TYPE_ERROR'
+  | 'SYNTAX_ERROR'
+  | 'INCOMPLETE_FORMULA'
+  | 'UNSUPPORTED_NODE';
+
+// Parameter values keyed by name without the leading '$'
+export type ParameterBindings = Record<string, number>;
+
+export class EvaluationError extends Error {
+  constructor(
+    readonly code: EvaluationErrorCode,
+    message: string,
+    readonly nodeId?: string
+  ) {
+    super(message);
+    this.name = 'EvaluationError';
+  }
+}
+
+export type EvaluationResult =
+  | { ok: true; value: number }
+  | { ok: false; error: EvaluationError };
+
+export const isEvaluationError = (error: unknown): error is EvaluationError => {
+  return error instanceof EvaluationError;
+};
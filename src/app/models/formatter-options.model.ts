@@ -0,0 +1,27 @@
+export interface FormatterOptions {
+  // 'exact' prints the shortest text that reads back as the same number
+  numberFormat: 'exact' | 'significant';
+  significantDigits: number;
+  // Locale whose decimal separator is used; null keeps the formula syntax '.'
+  locale: string | null;
+  // Spaces around binary operators: "a + b" rather than "a+b"
+  operatorSpacing: boolean;
+  // 'keep' prints the user's parentheses, 'minimal' only those the precedence requires
+  parentheses: 'keep' | 'minimal';
+  argumentSeparator: string;
+  // Function calls longer than this are broken one argument per line; 0 never breaks
+  lineWidth: number;
+  indent: string;
+}
+
+// Round-trips through the parser: printing and parsing again gives the same tree
+export const DEFAULT_FORMATTER_OPTIONS: FormatterOptions = {
+  numberFormat: 'exact',
+  significantDigits: 6,
+  locale: null,
+  operatorSpacing: true,
+  parentheses: 'keep',
+  argumentSeparator: ', ',
+  lineWidth: 0,
+  indent: '  '
+};
@@ -0,0 +1,41 @@
+import { AstNode, getChildNodes } from './ast-node.model';
+import { EvaluationError } from './evaluation.model';
+
+// One named formula of the workspace and how it connects to the others
+export interface DependencyEntry {
+  name: string;
+  formula: string;
+  // The parsed tree without source spans, or null when the formula does not parse
+  ast: AstNode | null;
+  parseError: string | null;
+  // Names it refers to, in order of appearance
+  references: string[];
+  // Names of the formulas that refer to it
+  dependents: string[];
+  // References to names no formula has
+  missing: string[];
+  // The cycle it is part of, if any
+  cycle: string[] | null;
+}
+
+export interface DependencyGraph {
+  entries: Map<string, DependencyEntry>;
+  // Each cycle once, as the names of the formulas in it
+  cycles: string[][];
+}
+
+export type ExpansionResult =
+  | { ok: true; ast: AstNode }
+  | { ok: false; error: EvaluationError };
+
+// Distinct names referenced in the tree, in order of appearance
+export const collectReferences = (node: AstNode, names: string[] = []): string[] => {
+  if (node.type === 'REFERENCE') {
+    if (!names.includes(node.name)) {
+      names.push(node.name);
+    }
+  } else {
+    getChildNodes(node).forEach(child => collectReferences(child, names));
+  }
+  return names;
+};
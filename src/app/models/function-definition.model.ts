@@ -0,0 +1,46 @@
+import { InjectionToken, Provider } from '@angular/core';
+
+export type ValueType = 'number' | 'string' | 'unknown';
+
+// A string for parameters declared as 'string', a number for every other one
+export type ArgumentValue = number | string;
+
+export interface FunctionDefinition {
+  // Looked up case-insensitively; shown in the palette as written here
+  name: string;
+  minArity: number;
+  // Infinity for variadic functions
+  maxArity: number;
+  // One entry per parameter; the last one repeats for variadic functions
+  parameterTypes: ValueType[];
+  returnType: ValueType;
+  description: string;
+  implementation: (args: ArgumentValue[]) => number;
+  // Returns false when the arguments are outside the function's domain
+  isDefined?: (args: ArgumentValue[]) => boolean;
+}
+
+// Multi-provider token for domain functions registered alongside the built-ins
+export const FORMULA_FUNCTIONS = new InjectionToken<FunctionDefinition[][]>('FORMULA_FUNCTIONS');
+
+export const provideFormulaFunctions = (...functions: FunctionDefinition[]): Provider => ({
+  provide: FORMULA_FUNCTIONS,
+  useValue: functions,
+  multi: true
+});
+
+export const describeArity = (fn: FunctionDefinition): string => {
+  if (fn.minArity === fn.maxArity) {
+    return `${fn.minArity} argument(s)`;
+  }
+  if (fn.maxArity === Infinity) {
+    return `at least ${fn.minArity} argument(s)`;
+  }
+  return `${fn.minArity} to ${fn.maxArity} arguments`;
+};
+
+// Type expected for the argument at the given position
+export const parameterTypeAt = (fn: FunctionDefinition, index: number): ValueType => {
+  const types = fn.parameterTypes;
+  return types[Math.min(index, types.length - 1)] ?? 'unknown';
+};
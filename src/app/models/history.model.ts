@@ -0,0 +1,24 @@
+import { AstNode } from './ast-node.model';
+
+// A reversible edit of the AST; undo restores the snapshot taken before it ran
+export interface AstCommand {
+  description: string;
+  // Returns the edited tree, or null when the command does not apply
+  execute(ast: AstNode): AstNode | null;
+  // A change outside the tree, such as a library entry, made with the edit and
+  // reverted when it is undone
+  sideEffect?: HistorySideEffect;
+}
+
+export interface HistorySideEffect {
+  apply(): void;
+  revert(): void;
+}
+
+export interface HistoryEntry {
+  id: number;
+  description: string;
+  ast: AstNode;
+  timestamp: number;
+  sideEffect?: HistorySideEffect;
+}
@@ -0,0 +1,34 @@
+import { BinaryOperationNode } from './ast-node.model';
+
+// Leaf kinds a leaf node can be converted between in place
+export type ConvertibleLeafType = 'NUMBER' | 'VARIABLE' | 'PI' | 'E';
+
+export const CONVERTIBLE_LEAF_TYPES: ConvertibleLeafType[] = ['NUMBER', 'VARIABLE', 'PI', 'E'];
+
+export const BINARY_OPERATORS: BinaryOperationNode['type'][] = [
+  'ADDITION',
+  'SUBTRACTION',
+  'MULTIPLICATION',
+  'DIVISION',
+  'POWER'
+];
+
+// Same rules as the lexer: parameter names follow the '$', reference names the '@',
+// function names are identifiers
+export const PARAMETER_NAME_PATTERN = /^[A-Za-z0-9_]+$/;
+export const REFERENCE_NAME_PATTERN = /^[A-Za-z0-9_]+$/;
+export const FUNCTION_NAME_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+export type NodeEdit =
+  | { kind: 'number'; value: number }
+  | { kind: 'variable'; name: string }
+  | { kind: 'operator'; operator: BinaryOperationNode['type'] }
+  | { kind: 'function'; name: string }
+  | { kind: 'reference'; name: string }
+  | { kind: 'inline' }
+  | { kind: 'convert'; to: ConvertibleLeafType };
+
+export interface NodeEditEvent {
+  nodeId: string;
+  edit: NodeEdit;
+}
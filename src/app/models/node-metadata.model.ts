@@ -0,0 +1,56 @@
+import { AstNode, NodeMetadata } from './ast-node.model';
+
+// Visual metadata per node type, shared by the tree and the block palette
+export const NODE_METADATA: Record<string, NodeMetadata> = {
+  'ADDITION': { color: '#a8e6cf', icon: '+', label: 'Add', deletable: true, category: 'binary' },
+  'SUBTRACTION': { color: '#ffd3b6', icon: '-', label: 'Sub', deletable: true, category: 'binary' },
+  'MULTIPLICATION': { color: '#ffaaa5', icon: '×', label: 'Mul', deletable: true, category: 'binary' },
+  'DIVISION': { color: '#ff8b94', icon: '÷', label: 'Div', deletable: true, category: 'binary' },
+  'POWER': { color: '#a8d8ea', icon: '^', label: 'Pow', deletable: true, category: 'binary' },
+  'NEGATION': { color: '#aa96da', icon: '−', label: 'Neg', deletable: true, category: 'unary' },
+  'PAREN': { color: '#e1bee7', icon: '( )', label: 'Paren', deletable: true, category: 'unary' },
+  'FUNCTION': { color: '#ce93d8', icon: 'ƒ', label: 'Func', deletable: true, category: 'function' },
+  'NUMBER': { color: '#ffcc80', icon: '#', label: 'Num', deletable: true, category: 'leaf' },
+  'VARIABLE': { color: '#81c784', icon: '$', label: 'Var', deletable: true, category: 'leaf' },
+  'STRING': { color: '#fff59d', icon: '"', label: 'Str', deletable: true, category: 'leaf' },
+  'PI': { color: '#4fc3f7', icon: 'π', label: 'Pi', deletable: false, category: 'leaf' },
+  'E': { color: '#4db6ac', icon: 'e', label: 'E', deletable: false, category: 'leaf' },
+  'REFERENCE': { color: '#90caf9', icon: '@', label: 'Ref', deletable: true, category: 'leaf' },
+  'WILDCARD': { color: '#cfd8dc', icon: '?', label: 'Wildcard', deletable: true, category: 'leaf' },
+  'ERROR': { color: '#ef9a9a', icon: '⚠', label: 'Error', deletable: true, category: 'leaf' },
+  'PLACEHOLDER': { color: 'transparent', icon: '?', label: 'Empty', deletable: true, category: 'leaf' }
+};
+
+export const UNKNOWN_NODE_METADATA: NodeMetadata = {
+  color: '#ccc',
+  icon: '?',
+  label: 'Unknown',
+  deletable: false,
+  category: 'leaf'
+};
+
+export const getNodeMetadata = (type: string): NodeMetadata => {
+  return NODE_METADATA[type] || UNKNOWN_NODE_METADATA;
+};
+
+// The text a node box shows next to its icon
+export const getNodeLabel = (node: AstNode): string => {
+  switch (node.type) {
+    case 'FUNCTION':
+      return node.name;
+    case 'NUMBER':
+      return String(node.value);
+    case 'VARIABLE':
+      return node.name;
+    case 'STRING':
+      return `'${node.value}'`;
+    case 'REFERENCE':
+      return `@${node.name}`;
+    case 'WILDCARD':
+      return `?${node.name}${node.kind ? `:${node.kind}` : ''}`;
+    case 'ERROR':
+      return node.text || getNodeMetadata(node.type).label;
+    default:
+      return getNodeMetadata(node.type).label;
+  }
+};
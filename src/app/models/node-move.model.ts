@@ -0,0 +1,15 @@
+// Where a moved subtree goes relative to the node it is dropped on:
+// swap   - the two nodes exchange places
+// into   - fills the empty slot (PLACEHOLDER)
+// before - becomes the function argument before it
+// after  - becomes the function argument after it
+export type NodeMovePosition = 'swap' | 'into' | 'before' | 'after';
+
+// The part of a node the pointer is over while dragging
+export type NodeDropZone = 'start' | 'middle' | 'end';
+
+export interface NodeMoveEvent {
+  nodeId: string;
+  targetId: string;
+  position: NodeMovePosition;
+}
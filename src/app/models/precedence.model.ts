@@ -0,0 +1,46 @@
+import { AstNode, isBinaryOperation } from './ast-node.model';
+
+// Matches the parser: unary minus binds looser than ^ (-x ^ 2 is -(x ^ 2))
+export const OPERATOR_PRECEDENCE: Record<string, number> = {
+  'ADDITION': 1,
+  'SUBTRACTION': 1,
+  'MULTIPLICATION': 2,
+  'DIVISION': 2,
+  'NEGATION': 3,
+  'POWER': 4
+};
+
+// A negative number prints with its minus sign, so it binds like a negation: (-3) ^ 2
+export const isNegativeNumber = (node: AstNode): boolean => node.type === 'NUMBER' && node.value < 0;
+
+const precedenceOf = (node: AstNode): number | undefined =>
+  isNegativeNumber(node) ? OPERATOR_PRECEDENCE['NEGATION'] : OPERATOR_PRECEDENCE[node.type];
+
+// Whether printing child inside parent needs parentheses to keep the tree's grouping
+export const needsParentheses = (parent: AstNode, child: AstNode): boolean => {
+  const parentPrecedence = OPERATOR_PRECEDENCE[parent.type];
+  const childPrecedence = precedenceOf(child);
+
+  if (parentPrecedence === undefined || childPrecedence === undefined) {
+    return false;
+  }
+
+  const isRightOperand = isBinaryOperation(parent) && parent.right === child;
+
+  // The parser reads a negated exponent directly: 2 ^ -1
+  if (parent.type === 'POWER' && isRightOperand && (child.type === 'NEGATION' || isNegativeNumber(child))) {
+    return false;
+  }
+
+  if (childPrecedence < parentPrecedence) {
+    return true;
+  }
+
+  if (childPrecedence === parentPrecedence && isBinaryOperation(child)) {
+    // ^ groups to the right, so a power as its base needs parentheses: (2 ^ 3) ^ 2.
+    // The other operators group to the left, so the right operand does: a - (b - c), a + (b + c)
+    return parent.type === 'POWER' ? !isRightOperand : isRightOperand;
+  }
+
+  return false;
+};
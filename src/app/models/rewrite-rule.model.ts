@@ -0,0 +1,48 @@
+import { AstNode } from './ast-node.model';
+
+// A structural find-and-replace, written in the formula language with ?name wildcards
+export interface RewriteRule {
+  pattern: string;
+  // Empty to search only
+  replacement: string;
+}
+
+// The subtree each wildcard stands for in one match
+export type PatternBindings = Record<string, AstNode>;
+
+export interface PatternMatch {
+  node: AstNode;
+  bindings: PatternBindings;
+}
+
+// A rule parsed and checked, ready to apply
+export interface CompiledRule {
+  source: RewriteRule;
+  pattern: AstNode;
+  replacement: AstNode | null;
+}
+
+export type RuleCompileResult =
+  | { ok: true; rule: CompiledRule }
+  | { ok: false; error: string };
+
+// once: a single pass over the tree; repeat: passes until no rule applies
+export type RewriteMode = 'once' | 'repeat';
+
+export interface RewriteResult {
+  ast: AstNode;
+  // Replacements made over all passes
+  applied: number;
+  passes: number;
+  // Whether no rule applies to the result any more
+  converged: boolean;
+}
+
+export const EXAMPLE_RULES: (RewriteRule & { label: string })[] = [
+  { label: 'Square as power', pattern: 'SQR(?x)', replacement: '?x ^ 2' },
+  { label: 'Power as square', pattern: '?x ^ 2', replacement: 'SQR(?x)' },
+  { label: 'Division by a constant', pattern: '?x / ?c:constant', replacement: '' },
+  { label: 'Double negation', pattern: '--?x', replacement: '?x' },
+  { label: 'Multiplication by one', pattern: '?x * 1', replacement: '?x' },
+  { label: 'Same operands', pattern: '?x + ?x', replacement: '2 * ?x' }
+];
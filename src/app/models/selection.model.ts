@@ -0,0 +1,10 @@
+// How a click adds to the selection:
+// replace - selects just this node
+// toggle  - adds the node or takes it out (Ctrl+click)
+// range   - selects the nodes from the last selected one to it in tree order (Shift+click)
+export type SelectionMode = 'replace' | 'toggle' | 'range';
+
+export interface NodeSelectEvent {
+  nodeId: string;
+  mode: SelectionMode;
+}
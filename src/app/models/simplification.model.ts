@@ -0,0 +1,25 @@
+import { AstNode } from './ast-node.model';
+
+// Where a node sits in its parent, for rules whose safety depends on context
+export interface RuleContext {
+  parentType: AstNode['type'] | null;
+  position: 'root' | 'left' | 'right' | 'operand' | 'argument';
+}
+
+export interface SimplificationRule {
+  name: string;
+  // Returns the rewritten node, or null when the rule does not apply
+  apply(node: AstNode, context: RuleContext): AstNode | null;
+}
+
+export interface SimplificationStep {
+  rule: string;
+  before: string;
+  after: string;
+}
+
+export interface SimplificationResult {
+  ast: AstNode;
+  steps: SimplificationStep[];
+  changed: boolean;
+}
@@ -0,0 +1,50 @@
+import { AstNode } from './ast-node.model';
+
+// A node box placed in tree coordinates; x and y are its top-left corner
+export interface LayoutNode {
+  node: AstNode;
+  icon: string;
+  label: string;
+  color: string;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  depth: number;
+  children: LayoutNode[];
+  // Set on a collapsed subtree, drawn as one summary box; counts the nodes it hides
+  hiddenCount: number;
+}
+
+export interface TreeLayout {
+  root: LayoutNode | null;
+  // Every box in pre-order, for renderers that draw a flat list
+  nodes: LayoutNode[];
+  width: number;
+  height: number;
+}
+
+export interface TreeLayoutOptions {
+  nodeHeight: number;
+  levelGap: number;
+  siblingGap: number;
+  minNodeWidth: number;
+  // Approximate advance of one character at the export font size
+  charWidth: number;
+  padding: number;
+  // Ids of subtrees to draw as a single summary box
+  collapsed: ReadonlySet<string>;
+  // Longest summary shown for a collapsed subtree, in characters
+  maxSummaryLength: number;
+}
+
+export const DEFAULT_TREE_LAYOUT_OPTIONS: TreeLayoutOptions = {
+  nodeHeight: 36,
+  levelGap: 48,
+  siblingGap: 16,
+  minNodeWidth: 56,
+  charWidth: 8,
+  padding: 24,
+  collapsed: new Set(),
+  maxSummaryLength: 32
+};
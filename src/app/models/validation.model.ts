@@ -0,0 +1,22 @@
+import { ValueType } from './function-definition.model';
+
+export type ValidationIssueCode =
+  | 'UNKNOWN_FUNCTION'
+  | 'WRONG_ARITY'
+  | 'TYPE_MISMATCH'
+  | 'UNKNOWN_REFERENCE'
+  | 'CIRCULAR_REFERENCE'
+  | 'EMPTY_SLOT';
+
+// A problem found by static analysis, attached to the node it concerns
+export interface ValidationIssue {
+  nodeId: string;
+  code: ValidationIssueCode;
+  message: string;
+}
+
+export interface TypeCheckResult {
+  // Inferred type per node id
+  types: Map<string, ValueType>;
+  issues: ValidationIssue[];
+}
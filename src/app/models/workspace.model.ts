@@ -0,0 +1,34 @@
+import { InjectionToken } from '@angular/core';
+import { AstNode } from './ast-node.model';
+import { ParameterBindings } from './evaluation.model';
+
+// Bump when the stored shape changes; snapshots with another version are ignored
+export const WORKSPACE_VERSION = 1;
+
+export interface WorkspaceSnapshot {
+  version: number;
+  // Text in the formula editor
+  formula: string;
+  // The text the tree was parsed from, when it was parsed
+  parsedFormula: string | null;
+  // The tree including edits made in the visualizer
+  ast: AstNode | null;
+  bindings: ParameterBindings;
+}
+
+export interface SavedFormula {
+  name: string;
+  formula: string;
+  bindings: ParameterBindings;
+}
+
+export interface SharedFormula {
+  formula: string;
+  bindings: ParameterBindings;
+}
+
+// Where the workspace is kept; tests and embedders can swap in another Storage
+export const WORKSPACE_STORAGE = new InjectionToken<Storage>('WORKSPACE_STORAGE', {
+  providedIn: 'root',
+  factory: () => localStorage
+});
@@ -0,0 +1,159 @@
+export type TokenType =
+  | 'NUMBER'
+  | 'STRING'
+  | 'PARAMETER'
+  | 'REFERENCE'
+  | 'WILDCARD'
+  | 'IDENTIFIER'
+  | '+'
+  | '-'
+  | '*'
+  | '/'
+  | '^'
+  | '('
+  | ')'
+  | ','
+  | '?'
+  | 'INVALID'
+  | 'EOF';
+
+export interface Token {
+  type: TokenType;
+  text: string;
+  start: number;
+  end: number;
+  // Set on INVALID tokens and on tokens the lexer had to repair
+  error?: string;
+}
+
+const SINGLE_CHAR_TOKENS: Record<string, TokenType> = {
+  '+': '+',
+  '-': '-',
+  '*': '*',
+  '/': '/',
+  '^': '^',
+  '(': '(',
+  ')': ')',
+  ',': ',',
+  '?': '?'
+};
+
+const NUMBER_PATTERN = /^(?:[0-9]+(?:\.[0-9]+)?|\.[0-9]+)(?:[eE][+-]?[0-9]+)?/;
+const IDENTIFIER_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*/;
+const PARAMETER_PATTERN = /^\$[A-Za-z0-9_]+/;
+const REFERENCE_PATTERN = /^@[A-Za-z0-9_]+/;
+// ?name or ?name:kind; a bare '?' is a placeholder
+const WILDCARD_PATTERN = /^\?[A-Za-z_][A-Za-z0-9_]*(?::[A-Za-z]*)?/;
+const WHITESPACE_PATTERN = /^\s+/;
+
+/**
+ * Splits a formula into tokens. STRING token text is the unquoted value,
+ * with doubled quotes ('') collapsed into a single quote.
+ *
+ * The lexer never throws: characters it cannot read become INVALID tokens
+ * carrying an error message, so the parser can report them and recover.
+ */
+export class FormulaLexer {
+  private position = 0;
+
+  constructor(private readonly input: string) {}
+
+  tokenize(): Token[] {
+    const tokens: Token[] = [];
+    let token: Token;
+
+    do {
+      token = this.nextToken();
+      tokens.push(token);
+    } while (token.type !== 'EOF');
+
+    return tokens;
+  }
+
+  private nextToken(): Token {
+    this.skipWhitespace();
+
+    const start = this.position;
+    if (start >= this.input.length) {
+      return { type: 'EOF', text: '', start, end: start };
+    }
+
+    const char = this.input[start];
+    const rest = this.input.slice(start);
+
+    const wildcard = char === '?' && this.matchToken(rest, WILDCARD_PATTERN, 'WILDCARD');
+    if (wildcard) {
+      return wildcard;
+    }
+
+    if (SINGLE_CHAR_TOKENS[char]) {
+      this.position++;
+      return { type: SINGLE_CHAR_TOKENS[char], text: char, start, end: this.position };
+    }
+
+    if (char === "'") {
+      return this.readString(start);
+    }
+
+    const match =
+      this.matchToken(rest, NUMBER_PATTERN, 'NUMBER') ||
+      this.matchToken(rest, PARAMETER_PATTERN, 'PARAMETER') ||
+      this.matchToken(rest, REFERENCE_PATTERN, 'REFERENCE') ||
+      this.matchToken(rest, IDENTIFIER_PATTERN, 'IDENTIFIER');
+
+    if (match) {
+      return match;
+    }
+
+    this.position++;
+    const error = char === '$'
+      ? 'Expected a parameter name after "$"'
+      : char === '@'
+        ? 'Expected a formula name after "@"'
+        : `Unexpected character "${char}"`;
+    return { type: 'INVALID', text: char, start, end: this.position, error };
+  }
+
+  private matchToken(rest: string, pattern: RegExp, type: TokenType): Token | null {
+    const match = pattern.exec(rest);
+    if (!match) return null;
+
+    const start = this.position;
+    this.position += match[0].length;
+    return { type, text: match[0], start, end: this.position };
+  }
+
+  private readString(start: number): Token {
+    let value = '';
+    let index = start + 1;
+
+    while (index < this.input.length) {
+      const char = this.input[index];
+
+      if (char === "'") {
+        // A doubled quote is an escaped quote inside the string
+        if (this.input[index + 1] === "'") {
+          value += "'";
+          index += 2;
+          continue;
+        }
+        this.position = index + 1;
+        return { type: 'STRING', text: value, start, end: this.position };
+      }
+
+      value += char;
+      index++;
+    }
+
+    // Recover by treating the rest of the input as the string's content
+    this.position = this.input.length;
+    return { type: 'STRING', text: value, start, end: this.position, error: 'Unterminated string literal' };
+  }
+
+  private skipWhitespace(): void {
+    const match = WHITESPACE_PATTERN.exec(this.input.slice(this.position));
+    if (match) {
+      this.position += match[0].length;
+    }
+  }
+}
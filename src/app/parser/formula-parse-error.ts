@@ -0,0 +1,12 @@
+import { ParseDiagnostic } from '../models/diagnostic.model';
+
+export class FormulaParseError extends Error {
+  constructor(
+    message: string,
+    readonly position: number,
+    readonly diagnostics: ParseDiagnostic[] = []
+  ) {
+    super(message);
+    this.name = 'FormulaParseError';
+  }
+}
@@ -0,0 +1,273 @@
+import { AstNode } from '../models/ast-node.model';
+import { FormulaParseError, parseFormula, parseFormulaWithDiagnostics, parsePattern } from './formula-parser';
+
+// Conformance suite built from the language description in the README
+describe('parseFormula', () => {
+  const num = (value: number): AstNode => ({ type: 'NUMBER', value });
+  const param = (name: string): AstNode => ({ type: 'VARIABLE', name });
+  const str = (value: string): AstNode => ({ type: 'STRING', value });
+  const fn = (name: string, ...args: AstNode[]): AstNode => ({ type: 'FUNCTION', name, arguments: args });
+  const paren = (expression: AstNode): AstNode => ({ type: 'PAREN', expression });
+  const neg = (expression: AstNode): AstNode => ({ type: 'NEGATION', expression });
+  const bin = (type: string, left: AstNode, right: AstNode): AstNode =>
+    ({ type, left, right } as AstNode);
+
+  describe('README examples', () => {
+    it('should parse PI * SQR($r)', () => {
+      expect(parseFormula('PI * SQR($r)')).toMatchObject(
+        bin('MULTIPLICATION', { type: 'PI' }, fn('SQR', param('$r')))
+      );
+    });
+
+    it('should parse the quadratic formula, including whitespace before a call', () => {
+      expect(parseFormula('($b + SQRT (SQR($b) - 4 * $a)) / (2 * $a)')).toMatchObject(
+        bin(
+          'DIVISION',
+          paren(bin(
+            'ADDITION',
+            param('$b'),
+            fn('SQRT', bin('SUBTRACTION', fn('SQR', param('$b')), bin('MULTIPLICATION', num(4), param('$a'))))
+          )),
+          paren(bin('MULTIPLICATION', num(2), param('$a')))
+        )
+      );
+    });
+  });
+
+  describe('NUMBER', () => {
+    it.each([
+      ['42', 42],
+      ['3.14159', 3.14159],
+      ['.5', 0.5],
+      ['1e3', 1000],
+      ['2.5E-2', 0.025]
+    ])('should parse %s', (input, value) => {
+      expect(parseFormula(input)).toMatchObject(num(value));
+    });
+  });
+
+  describe('STRING', () => {
+    it('should parse a quoted string', () => {
+      expect(parseFormula("'hello world'")).toMatchObject(str('hello world'));
+    });
+
+    it('should unescape doubled quotes', () => {
+      expect(parseFormula("'it''s'")).toMatchObject(str("it's"));
+    });
+
+    it('should parse an empty string', () => {
+      expect(parseFormula("''")).toMatchObject(str(''));
+    });
+
+    it('should reject an unterminated string', () => {
+      expect(() => parseFormula("'abc")).toThrow(FormulaParseError);
+    });
+  });
+
+  describe('PARAMETER', () => {
+    it('should accept multi-character names', () => {
+      expect(parseFormula('$revenue_2024')).toMatchObject(param('$revenue_2024'));
+    });
+
+    it('should reject a bare "$"', () => {
+      expect(() => parseFormula('$ + 1')).toThrow(FormulaParseError);
+    });
+  });
+
+  describe('REFERENCE', () => {
+    it('should parse a reference to another formula, without its "@"', () => {
+      expect(parseFormula('@margin / @revenue_2024')).toMatchObject(
+        bin('DIVISION', { type: 'REFERENCE', name: 'margin' } as AstNode, { type: 'REFERENCE', name: 'revenue_2024' } as AstNode)
+      );
+    });
+
+    it('should reject a bare "@"', () => {
+      expect(() => parseFormula('@ + 1')).toThrow('Expected a formula name after "@"');
+    });
+  });
+
+  describe('constants', () => {
+    it('should parse PI and E', () => {
+      expect(parseFormula('PI')).toMatchObject({ type: 'PI' });
+      expect(parseFormula('E')).toMatchObject({ type: 'E' });
+    });
+
+    it('should reject unknown identifiers without a call', () => {
+      expect(() => parseFormula('FOO + 1')).toThrow(/Unknown identifier/);
+    });
+  });
+
+  describe('FUNCTION', () => {
+    it('should parse a call without arguments', () => {
+      expect(parseFormula('NOW()')).toMatchObject(fn('NOW'));
+    });
+
+    it('should parse comma-separated arguments', () => {
+      expect(parseFormula('MAX(1, $x, SQR(2))')).toMatchObject(
+        fn('MAX', num(1), param('$x'), fn('SQR', num(2)))
+      );
+    });
+
+    it('should parse a function named like a constant when it is called', () => {
+      expect(parseFormula('E(1)')).toMatchObject(fn('E', num(1)));
+    });
+
+    it('should reject a trailing comma', () => {
+      expect(() => parseFormula('MAX(1, )')).toThrow(FormulaParseError);
+    });
+  });
+
+  describe('PLACEHOLDER', () => {
+    it('should parse "?" as an empty slot', () => {
+      expect(parseFormula('SQRT(?) + 1')).toMatchObject(
+        bin('ADDITION', fn('SQRT', { type: 'PLACEHOLDER' }), num(1))
+      );
+    });
+  });
+
+  describe('WILDCARD', () => {
+    it('should parse named wildcards with an optional kind in patterns', () => {
+      expect(parsePattern('?x ^ ?n:number')).toMatchObject(
+        bin('POWER', { type: 'WILDCARD', name: 'x' } as AstNode, { type: 'WILDCARD', name: 'n', kind: 'number' } as AstNode)
+      );
+      expect(parsePattern('?')).toMatchObject({ type: 'PLACEHOLDER' });
+    });
+
+    it('should only allow wildcards in patterns', () => {
+      expect(() => parseFormula('SQR(?x)')).toThrow('Wildcards like ?x are only allowed in search patterns');
+    });
+
+    it('should reject unknown wildcard kinds', () => {
+      expect(() => parsePattern('?x:text')).toThrow('Unknown wildcard kind "text"');
+    });
+  });
+
+  describe('BINARY_EXPR precedence and associativity', () => {
+    it('should bind * tighter than +', () => {
+      expect(parseFormula('1 + 2 * 3')).toMatchObject(
+        bin('ADDITION', num(1), bin('MULTIPLICATION', num(2), num(3)))
+      );
+    });
+
+    it('should treat - and / as left-associative', () => {
+      expect(parseFormula('8 - 4 - 2')).toMatchObject(
+        bin('SUBTRACTION', bin('SUBTRACTION', num(8), num(4)), num(2))
+      );
+      expect(parseFormula('8 / 4 / 2')).toMatchObject(
+        bin('DIVISION', bin('DIVISION', num(8), num(4)), num(2))
+      );
+    });
+
+    it('should treat ^ as right-associative with left/right operands', () => {
+      expect(parseFormula('2 ^ 3 ^ 2')).toMatchObject(
+        bin('POWER', num(2), bin('POWER', num(3), num(2)))
+      );
+    });
+
+    it('should bind ^ tighter than * and unary minus', () => {
+      expect(parseFormula('2 * $x ^ 2')).toMatchObject(
+        bin('MULTIPLICATION', num(2), bin('POWER', param('$x'), num(2)))
+      );
+      expect(parseFormula('-$x ^ 2')).toMatchObject(neg(bin('POWER', param('$x'), num(2))));
+    });
+
+    it('should allow a negated exponent', () => {
+      expect(parseFormula('2 ^ -1')).toMatchObject(bin('POWER', num(2), neg(num(1))));
+    });
+  });
+
+  describe('UNARY_EXPR', () => {
+    it('should parse nested negation', () => {
+      expect(parseFormula('--$x')).toMatchObject(neg(neg(param('$x'))));
+    });
+
+    it('should bind unary minus tighter than binary operators', () => {
+      expect(parseFormula('-1 + 2')).toMatchObject(bin('ADDITION', neg(num(1)), num(2)));
+    });
+  });
+
+  describe('source spans', () => {
+    it('should record the offsets of every node', () => {
+      const ast = parseFormula('PI * SQR( $r )');
+      expect(ast.span).toEqual({ start: 0, end: 14 });
+      expect(ast).toMatchObject({
+        left: { span: { start: 0, end: 2 } },
+        right: { span: { start: 5, end: 14 }, arguments: [{ span: { start: 10, end: 12 } }] }
+      });
+    });
+
+    it('should include parentheses and the minus sign in the span', () => {
+      expect(parseFormula(' -(1 + 2)').span).toEqual({ start: 1, end: 9 });
+      expect(parseFormula(' -(1 + 2)')).toMatchObject({ expression: { span: { start: 2, end: 9 } } });
+    });
+  });
+
+  describe('errors', () => {
+    it.each([
+      ['', /end of formula/],
+      ['1 +', /end of formula/],
+      ['(1 + 2', /Expected "\)"/],
+      ['1 2', /after end of expression/],
+      ['1 # 2', /Unexpected character "#"/]
+    ])('should reject %p', (input, message) => {
+      expect(() => parseFormula(input)).toThrow(message);
+    });
+
+    it('should report the error position', () => {
+      let caught: unknown;
+      try {
+        parseFormula('1 + * 2');
+      } catch (error) {
+        caught = error;
+      }
+      expect(caught).toBeInstanceOf(FormulaParseError);
+      expect((caught as FormulaParseError).position).toBe(4);
+    });
+  });
+
+  describe('diagnostics and recovery', () => {
+    it('should report line, column and expected tokens', () => {
+      const { diagnostics } = parseFormulaWithDiagnostics('1 +\n  * 2');
+      expect(diagnostics).toEqual([
+        expect.objectContaining({
+          severity: 'error',
+          line: 2,
+          column: 3,
+          span: { start: 6, end: 6 },
+          expected: expect.arrayContaining(['number', 'parameter'])
+        })
+      ]);
+    });
+
+    it('should keep the valid parts of the tree around a missing operand', () => {
+      const { ast } = parseFormulaWithDiagnostics('SQRT($a + ) * 2');
+      expect(ast).toMatchObject(
+        bin('MULTIPLICATION', fn('SQRT', bin('ADDITION', param('$a'), { type: 'ERROR', text: '' } as AstNode)), num(2))
+      );
+    });
+
+    it('should turn unreadable input into an ERROR node', () => {
+      const { ast, diagnostics } = parseFormulaWithDiagnostics('1 + ## * 2');
+      expect(ast).toMatchObject(
+        bin('ADDITION', num(1), bin('MULTIPLICATION', { type: 'ERROR', text: '##' } as AstNode, num(2)))
+      );
+      expect(diagnostics.map(d => d.message)).toEqual(['Unexpected character "#"', 'Unexpected character "#"']);
+    });
+
+    it('should assume a missing closing parenthesis', () => {
+      const { ast, diagnostics } = parseFormulaWithDiagnostics('(1 + 2');
+      expect(ast).toMatchObject(paren(bin('ADDITION', num(1), num(2))));
+      expect(diagnostics[0].expected).toContain('")"');
+    });
+
+    it('should report trailing input without dropping the parsed expression', () => {
+      const { ast, diagnostics } = parseFormulaWithDiagnostics('1 + 2) * 3');
+      expect(ast).toMatchObject(bin('ADDITION', num(1), num(2)));
+      expect(diagnostics).toEqual([expect.objectContaining({ message: 'Unmatched ")"', span: { start: 5, end: 10 } })]);
+    });
+
+    it('should return no tree when nothing could be parsed', () => {
+      expect(parseFormulaWithDiagnostics(')').ast).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,330 @@
+import {
+  AstNode,
+  BinaryOperationNode,
+  ErrorNode,
+  WILDCARD_KINDS,
+  WildcardKind
+} from '../models/ast-node.model';
+import { ParseDiagnostic, ParseResult } from '../models/diagnostic.model';
+import { FormulaLexer, Token, TokenType } from './formula-lexer';
+import { FormulaParseError } from './formula-parse-error';
+
+export { FormulaParseError } from './formula-parse-error';
+
+const ADDITIVE_OPERATORS: Partial<Record<TokenType, BinaryOperationNode['type']>> = {
+  '+': 'ADDITION',
+  '-': 'SUBTRACTION'
+};
+
+const MULTIPLICATIVE_OPERATORS: Partial<Record<TokenType, BinaryOperationNode['type']>> = {
+  '*': 'MULTIPLICATION',
+  '/': 'DIVISION'
+};
+
+const CONSTANTS: Record<string, AstNode['type']> = {
+  'PI': 'PI',
+  'E': 'E'
+};
+
+export interface FormulaParserOptions {
+  // Accept ?name wildcards, as search patterns and rewrite rules do
+  wildcards?: boolean;
+}
+
+const EXPECTED_OPERAND = ['number', 'string', 'parameter', 'reference', 'function call', 'PI', 'E', '"("', '"-"', '"?"'];
+const EXPECTED_OPERATOR = ['"+"', '"-"', '"*"', '"/"', '"^"', 'end of formula'];
+
+/**
+ * Recursive-descent parser for the formula language described in the README.
+ *
+ * Grammar, from lowest to highest precedence:
+ *   expression     = additive
+ *   additive       = multiplicative (("+" | "-") multiplicative)*
+ *   multiplicative = unary (("*" | "/") unary)*
+ *   unary          = "-" unary | power
+ *   power          = primary ("^" unary)?          (right-associative)
+ *   primary        = NUMBER | STRING | PARAMETER | REFERENCE | PI | E | "?"
+ *                  | WILDCARD                        (patterns only)
+ *                  | IDENTIFIER "(" (expression ("," expression)*)? ")"
+ *                  | "(" expression ")"
+ *
+ * Syntax errors do not abort the parse. Each one is recorded as a diagnostic,
+ * a missing or unreadable operand becomes an ERROR node, and a missing ")"
+ * is assumed, so the valid parts of the formula still produce a tree.
+ */
+export class FormulaParser {
+  private readonly tokens: Token[];
+  private readonly diagnostics: ParseDiagnostic[] = [];
+  private index = 0;
+
+  constructor(
+    private readonly input: string,
+    private readonly options: FormulaParserOptions = {}
+  ) {
+    this.tokens = new FormulaLexer(input).tokenize();
+  }
+
+  parse(): ParseResult {
+    const expression = this.parseExpression();
+    const token = this.peek();
+
+    if (token.type !== 'EOF') {
+      // Whatever follows a complete expression cannot be attached to the tree
+      const last = this.tokens[this.tokens.length - 2];
+      this.reportToken(token);
+      this.report(
+        token.type === ')' ? 'Unmatched ")"' : `Unexpected "${token.text}" after end of expression`,
+        token.start,
+        last.end,
+        EXPECTED_OPERATOR
+      );
+      this.tokens.filter(t => t.error && t.start > token.start).forEach(t => this.reportToken(t));
+    }
+
+    const diagnostics = [...this.diagnostics].sort((a, b) => a.span.start - b.span.start);
+    const ast = expression.type === 'ERROR' && !expression.text ? null : expression;
+    return { ast, diagnostics };
+  }
+
+  private parseExpression(): AstNode {
+    return this.parseBinary(ADDITIVE_OPERATORS, () => this.parseBinary(
+      MULTIPLICATIVE_OPERATORS,
+      () => this.parseUnary()
+    ));
+  }
+
+  // Parses a left-associative chain of operators sharing one precedence level
+  private parseBinary(
+    operators: Partial<Record<TokenType, BinaryOperationNode['type']>>,
+    parseOperand: () => AstNode
+  ): AstNode {
+    let left = parseOperand();
+
+    let type = operators[this.peek().type];
+    while (type) {
+      this.advance();
+      const right = parseOperand();
+      left = this.withSpan({ type, left, right } as AstNode, left.span.start, right.span.end);
+      type = operators[this.peek().type];
+    }
+
+    return left;
+  }
+
+  private parseUnary(): AstNode {
+    if (this.peek().type === '-') {
+      const operator = this.advance();
+      const expression = this.parseUnary();
+      return this.withSpan({ type: 'NEGATION', expression }, operator.start, expression.span.end);
+    }
+
+    return this.parsePower();
+  }
+
+  private parsePower(): AstNode {
+    const base = this.parsePrimary();
+
+    if (this.peek().type === '^') {
+      this.advance();
+      // The exponent may itself be negated or another power: 2 ^ -3, 2 ^ 3 ^ 2
+      const exponent = this.parseUnary();
+      return this.withSpan({ type: 'POWER', left: base, right: exponent }, base.span.start, exponent.span.end);
+    }
+
+    return base;
+  }
+
+  private parsePrimary(): AstNode {
+    const token = this.peek();
+
+    switch (token.type) {
+      case 'NUMBER':
+        this.advance();
+        return this.withSpan({ type: 'NUMBER', value: Number(token.text) }, token.start, token.end);
+      case 'STRING':
+        this.advance();
+        this.reportToken(token);
+        return this.withSpan({ type: 'STRING', value: token.text }, token.start, token.end);
+      case 'PARAMETER':
+        this.advance();
+        return this.withSpan({ type: 'VARIABLE', name: token.text }, token.start, token.end);
+      case 'REFERENCE':
+        this.advance();
+        return this.withSpan({ type: 'REFERENCE', name: token.text.slice(1) }, token.start, token.end);
+      case 'IDENTIFIER':
+        this.advance();
+        return this.parseIdentifier(token);
+      case 'WILDCARD':
+        this.advance();
+        return this.parseWildcard(token);
+      case '?':
+        // An empty slot printed by the formula builder; it parses, but cannot be evaluated
+        this.advance();
+        return this.withSpan({ type: 'PLACEHOLDER' }, token.start, token.end);
+      case '(': {
+        this.advance();
+        const expression = this.parseExpression();
+        const closing = this.expect(')', ['")"', ...EXPECTED_OPERATOR.slice(0, -1)]);
+        return this.withSpan({ type: 'PAREN', expression }, token.start, closing?.end ?? expression.span.end);
+      }
+      case 'INVALID':
+        return this.parseInvalid();
+      default:
+        // Leave the token in place: it most likely belongs to the enclosing expression
+        return this.missingOperand(token);
+    }
+  }
+
+  private parseIdentifier(token: Token): AstNode {
+    if (this.peek().type === '(') {
+      this.advance();
+      const args = this.parseArguments();
+      return this.withSpan({ type: 'FUNCTION', name: token.text, arguments: args }, token.start, this.previous().end);
+    }
+
+    const constant = CONSTANTS[token.text];
+    if (constant) {
+      return this.withSpan({ type: constant } as AstNode, token.start, token.end);
+    }
+
+    const message = `Unknown identifier "${token.text}" (function calls need parentheses)`;
+    this.report(message, token.start, token.end, ['"("']);
+    return this.errorNode(message, token.start, token.end);
+  }
+
+  private parseWildcard(token: Token): AstNode {
+    if (!this.options.wildcards) {
+      const message = `Wildcards like ${token.text} are only allowed in search patterns`;
+      this.report(message, token.start, token.end, EXPECTED_OPERAND);
+      return this.errorNode(message, token.start, token.end);
+    }
+
+    const [name, kind] = token.text.slice(1).split(':');
+    if (kind !== undefined && !WILDCARD_KINDS.includes(kind as WildcardKind)) {
+      const message = `Unknown wildcard kind "${kind}" (use ${WILDCARD_KINDS.join(', ')})`;
+      this.report(message, token.start, token.end, WILDCARD_KINDS);
+      return this.errorNode(message, token.start, token.end);
+    }
+
+    const wildcard: AstNode = kind ? { type: 'WILDCARD', name, kind: kind as WildcardKind } : { type: 'WILDCARD', name };
+    return this.withSpan(wildcard, token.start, token.end);
+  }
+
+  private parseArguments(): AstNode[] {
+    const args: AstNode[] = [];
+
+    if (this.peek().type === ')') {
+      this.advance();
+      return args;
+    }
+
+    args.push(this.parseExpression());
+    while (this.peek().type === ',') {
+      this.advance();
+      args.push(this.parseExpression());
+    }
+
+    this.expect(')', ['","', '")"']);
+    return args;
+  }
+
+  // Consumes a run of unreadable characters into a single ERROR node
+  private parseInvalid(): AstNode {
+    const first = this.peek();
+    let last = first;
+
+    while (this.peek().type === 'INVALID') {
+      last = this.advance();
+      this.reportToken(last);
+    }
+
+    return this.errorNode(first.error ?? 'Invalid input', first.start, last.end);
+  }
+
+  private missingOperand(token: Token): AstNode {
+    const message = token.type === 'EOF'
+      ? 'Unexpected end of formula'
+      : `Unexpected "${token.text}"`;
+    this.report(message, token.start, token.start, EXPECTED_OPERAND);
+    return this.errorNode(message, token.start, token.start);
+  }
+
+  // Returns the token, or null after reporting it missing (the parse goes on as if it were there)
+  private expect(type: TokenType, expected: string[]): Token | null {
+    const token = this.peek();
+    if (token.type !== type) {
+      const found = token.type === 'EOF' ? 'end of formula' : `"${token.text}"`;
+      this.report(`Expected "${type}" but found ${found}`, token.start, token.start, expected);
+      return null;
+    }
+    return this.advance();
+  }
+
+  private errorNode(message: string, start: number, end: number): ErrorNode {
+    return this.withSpan({ type: 'ERROR', message, text: this.input.slice(start, end) }, start, end);
+  }
+
+  private reportToken(token: Token): void {
+    if (token.error) {
+      this.report(token.error, token.start, token.end, token.type === 'STRING' ? ['"\'"'] : EXPECTED_OPERAND);
+    }
+  }
+
+  private report(message: string, start: number, end: number, expected: string[]): void {
+    // One diagnostic per position keeps a single mistake from cascading
+    if (this.diagnostics.some(diagnostic => diagnostic.span.start === start)) {
+      return;
+    }
+
+    const before = this.input.slice(0, start).split('\n');
+    this.diagnostics.push({
+      severity: 'error',
+      message,
+      expected,
+      span: { start, end },
+      line: before.length,
+      column: before[before.length - 1].length + 1
+    });
+  }
+
+  private withSpan<T extends AstNode>(node: T, start: number, end: number): T {
+    return { ...node, span: { start, end } };
+  }
+
+  private previous(): Token {
+    return this.tokens[this.index - 1];
+  }
+
+  private peek(): Token {
+    return this.tokens[this.index];
+  }
+
+  private advance(): Token {
+    const token = this.tokens[this.index];
+    if (token.type !== 'EOF') {
+      this.index++;
+    }
+    return token;
+  }
+}
+
+// Parses with error recovery, returning every problem as a diagnostic
+export const parseFormulaWithDiagnostics = (input: string, options: FormulaParserOptions = {}): ParseResult => {
+  return new FormulaParser(input, options).parse();
+};
+
+// Parses strictly, throwing on the first problem
+export const parseFormula = (input: string, options: FormulaParserOptions = {}): AstNode => {
+  const { ast, diagnostics } = parseFormulaWithDiagnostics(input, options);
+
+  if (diagnostics.length > 0) {
+    throw new FormulaParseError(diagnostics[0].message, diagnostics[0].span.start, diagnostics);
+  }
+
+  return ast;
+};
+
+// Parses a search pattern or rewrite rule, where ?name wildcards are allowed
+export const parsePattern = (input: string): AstNode => {
+  return parseFormula(input, { wildcards: true });
+};
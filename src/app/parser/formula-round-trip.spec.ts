@@ -0,0 +1,124 @@
+import { TestBed } from '@angular/core/testing';
+import { AstNode, isStructurallyEqual, mapChildNodes } from '../models/ast-node.model';
+import { EvaluationResult } from '../models/evaluation.model';
+import { FormatterOptions } from '../models/formatter-options.model';
+import { FormulaBuilderService } from '../services/formula-builder.service';
+import { FormulaEvaluatorService } from '../services/formula-evaluator.service';
+import { AstGenerator } from '../testing/ast-generator';
+import { provideMemoryStorage } from '../testing/workspace-storage';
+import { parseFormula } from './formula-parser';
+
+// Property tests: printing a tree and parsing the text must give the tree back
+describe('formula round trip', () => {
+  const SAMPLES = 300;
+
+  let formulaBuilder: FormulaBuilderService;
+  let evaluator: FormulaEvaluatorService;
+
+  const stripParentheses = (node: AstNode): AstNode => {
+    if (node.type === 'PAREN') return stripParentheses(node.expression);
+    return mapChildNodes(node, stripParentheses);
+  };
+
+  // The parser reads -3 as the negation of 3
+  const negateNumbers = (node: AstNode): AstNode => {
+    if (node.type === 'NUMBER' && node.value < 0) return { type: 'NEGATION', expression: { type: 'NUMBER', value: -node.value } };
+    return mapChildNodes(node, negateNumbers);
+  };
+
+  const sameResult = (a: EvaluationResult, b: EvaluationResult): boolean => {
+    if (a.ok && b.ok) return Object.is(a.value, b.value);
+    return a.ok === false && b.ok === false && a.error.code === b.error.code;
+  };
+
+  // Runs the check on SAMPLES trees and reports the first formula that fails it
+  const forAllTrees = (
+    generate: (generator: AstGenerator) => AstNode,
+    check: (ast: AstNode, generator: AstGenerator) => boolean,
+    seed = 2024
+  ) => {
+    const generator = new AstGenerator(seed, { includeStrings: true });
+    for (let i = 0; i < SAMPLES; i++) {
+      const ast = generate(generator);
+      if (!check(ast, generator)) {
+        throw new Error(`Property failed for sample ${i} (seed ${seed}): ${formulaBuilder.buildFormula(ast)}`);
+      }
+    }
+  };
+
+  beforeEach(() => {
+    TestBed.configureTestingModule({ providers: [provideMemoryStorage()] });
+    formulaBuilder = TestBed.inject(FormulaBuilderService);
+    evaluator = TestBed.inject(FormulaEvaluatorService);
+  });
+
+  it('should give back every parsable tree exactly', () => {
+    forAllTrees(
+      generator => generator.parsable(),
+      ast => isStructurallyEqual(parseFormula(formulaBuilder.buildFormula(ast)), ast)
+    );
+  });
+
+  it('should keep the grouping of arbitrary trees, adding only parentheses', () => {
+    forAllTrees(
+      generator => generator.arbitrary(),
+      ast => isStructurallyEqual(stripParentheses(parseFormula(formulaBuilder.buildFormula(ast))), negateNumbers(ast))
+    );
+  });
+
+  it('should evaluate to the same value before and after printing', () => {
+    forAllTrees(
+      generator => generator.arbitrary(),
+      (ast, generator) => {
+        const bindings = generator.bindings();
+        const reparsed = parseFormula(formulaBuilder.buildFormula(ast));
+        return sameResult(evaluator.tryEvaluate(ast, bindings), evaluator.tryEvaluate(reparsed, bindings));
+      }
+    );
+  });
+
+  it.each<[string, Partial<FormatterOptions>]>([
+    ['minimal parentheses', { parentheses: 'minimal' }],
+    ['no operator spacing', { operatorSpacing: false }],
+    ['broken lines', { lineWidth: 12, indent: '\t' }]
+  ])('should keep the meaning with %s', (_, options) => {
+    forAllTrees(
+      generator => generator.parsable(),
+      ast => isStructurallyEqual(
+        stripParentheses(parseFormula(formulaBuilder.buildFormula(ast, options))),
+        stripParentheses(ast)
+      ),
+      7
+    );
+  });
+
+  it('should generate the same trees for the same seed', () => {
+    const first = new AstGenerator(42);
+    const second = new AstGenerator(42);
+    for (let i = 0; i < 20; i++) {
+      expect(second.arbitrary()).toEqual(first.arbitrary());
+    }
+  });
+
+  it.each([
+    ['-$x ^ 2'],
+    ['(-$x) ^ 2'],
+    ['2 ^ -$x'],
+    ['(2 ^ 3) ^ 2'],
+    ['2 ^ 3 ^ 2'],
+    ['$a - ($b - $c)'],
+    ['-(-$x)']
+  ])('should print %s without changing its structure', (formula) => {
+    const ast = stripParentheses(parseFormula(formula));
+    expect(isStructurallyEqual(stripParentheses(parseFormula(formulaBuilder.buildFormula(ast))), ast)).toBe(true);
+  });
+
+  it('should keep a negative number as the base of a power', () => {
+    const ast: AstNode = { type: 'POWER', left: { type: 'NUMBER', value: -3 }, right: { type: 'NUMBER', value: 2 } };
+    const formula = formulaBuilder.buildFormula(ast);
+
+    expect(formula).toBe('(-3) ^ 2');
+    expect(evaluator.evaluate(parseFormula(formula), {})).toBe(9);
+    expect(formulaBuilder.buildFormula({ ...ast, left: ast.right, right: ast.left })).toBe('2 ^ -3');
+  });
+});
@@ -0,0 +1,122 @@
+import { TestBed } from '@angular/core/testing';
+import { AstDiff, NodeChangeKind } from '../models/ast-diff.model';
+import { AstNode } from '../models/ast-node.model';
+import { parseFormula } from '../parser/formula-parser';
+import { provideMemoryStorage } from '../testing/workspace-storage';
+import { AstDiffService } from './ast-diff.service';
+import { AstManipulatorService } from './ast-manipulator.service';
+import { FormulaBuilderService } from './formula-builder.service';
+
+describe('AstDiffService', () => {
+  let service: AstDiffService;
+  let astService: AstManipulatorService;
+  let formulaBuilder: FormulaBuilderService;
+
+  // Changes as "kind formula" pairs, e.g. "inserted $c"
+  const summarize = (diff: AstDiff, kind: NodeChangeKind) => diff.changes
+    .filter(change => change.kind === kind)
+    .map(change => formulaBuilder.buildFormula((change.after ?? change.before) as AstNode));
+
+  const diffFormulas = (before: string, after: string) => service.diff(parseFormula(before), parseFormula(after));
+
+  beforeEach(() => {
+    TestBed.configureTestingModule({ providers: [provideMemoryStorage()] });
+    service = TestBed.inject(AstDiffService);
+    astService = TestBed.inject(AstManipulatorService);
+    formulaBuilder = TestBed.inject(FormulaBuilderService);
+  });
+
+  describe('trees parsed separately', () => {
+    it('should find nothing between equal trees', () => {
+      const diff = diffFormulas('SQRT($a) + 2 * $b', 'SQRT($a) + 2 * $b');
+      expect(diff.changes).toEqual([]);
+      expect(diff.text).toEqual([{ kind: 'equal', text: 'SQRT($a) + 2 * $b' }]);
+    });
+
+    it('should mark a changed value and operator in place', () => {
+      const diff = diffFormulas('$a + 2 * $b', '$a - 3 * $b');
+
+      expect(summarize(diff, 'changed')).toEqual(['$a - 3 * $b', '3']);
+      expect(diff.changes.find(change => change.kind === 'changed')?.description).toBe('Was addition operation');
+      expect(summarize(diff, 'inserted')).toEqual([]);
+      expect(summarize(diff, 'deleted')).toEqual([]);
+    });
+
+    it('should find inserted and deleted subtrees', () => {
+      const diff = diffFormulas('MAX($a, SQR($b), 1)', 'MAX($a, 1, $c * 2)');
+
+      expect(summarize(diff, 'inserted')).toEqual(['$c * 2', '$c', '2']);
+      expect(summarize(diff, 'deleted')).toEqual(['SQR($b)', '$b']);
+      expect(diff.removed.map(node => formulaBuilder.buildFormula(node))).toEqual(['SQR($b)']);
+    });
+
+    it('should find a subtree moved under another parent', () => {
+      const diff = diffFormulas('SQRT(SIN($x) + 1) * 2', 'SQRT(1) * SIN($x)');
+
+      expect(summarize(diff, 'moved')).toEqual(['SIN($x)']);
+    });
+
+    it('should find swapped operands', () => {
+      const diff = diffFormulas('SQR($a) - LOG($b)', 'LOG($b) - SQR($a)');
+
+      expect(summarize(diff, 'moved')).toEqual(['LOG($b)', 'SQR($a)']);
+      expect(summarize(diff, 'inserted')).toEqual([]);
+    });
+
+    it('should not call a wrapped node moved', () => {
+      const diff = diffFormulas('$a + $b', '$a + SQRT($b)');
+
+      expect(summarize(diff, 'inserted')).toEqual(['SQRT($b)']);
+      expect(summarize(diff, 'moved')).toEqual([]);
+    });
+  });
+
+  describe('edits of one tree', () => {
+    it('should follow node ids through edits', () => {
+      astService.setAst(parseFormula('$a + $b'));
+      const before = astService.ast() as AstNode;
+      const right = before.type === 'ADDITION' ? before.right : before;
+
+      astService.renameVariable(right.id ?? '', 'c');
+      astService.wrapNode(right.id ?? '', 'NEGATION');
+
+      const diff = service.diff(before, astService.ast() as AstNode);
+      expect(diff.changes.map(change => change.kind)).toEqual(['inserted', 'changed']);
+      expect(diff.changes[1].after?.id).toBe(right.id);
+    });
+
+    it('should compare the current tree with the chosen history entry', () => {
+      astService.setAst(parseFormula('1 + 2'));
+      const [first] = astService.history();
+      const root = astService.ast() as AstNode;
+      astService.updateNumber(root.type === 'ADDITION' ? root.right.id ?? '' : '', 5);
+
+      expect(service.comparison()).toBeNull();
+
+      service.compareWith(first.id);
+      const changed = service.comparison()?.changes.find(change => change.kind === 'changed');
+      expect(changed?.description).toBe('Was number: 2');
+      expect(service.marksFor(changed?.after?.id ?? '')).toEqual([changed]);
+
+      service.compareWith(null);
+      expect(service.marks().size).toBe(0);
+    });
+  });
+
+  describe('diffText', () => {
+    it('should mark inserted and deleted tokens between unchanged text', () => {
+      expect(service.diffText('SQR($a) + 1', 'SQRT($a) + 12')).toEqual([
+        { kind: 'deleted', text: 'SQR' },
+        { kind: 'inserted', text: 'SQRT' },
+        { kind: 'equal', text: '($a) + ' },
+        { kind: 'deleted', text: '1' },
+        { kind: 'inserted', text: '12' }
+      ]);
+    });
+
+    it('should handle empty texts', () => {
+      expect(service.diffText('', '$a')).toEqual([{ kind: 'inserted', text: '$a' }]);
+      expect(service.diffText('', '')).toEqual([]);
+    });
+  });
+});
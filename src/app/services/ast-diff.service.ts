@@ -0,0 +1,285 @@
+import { Injectable, computed, inject, signal } from '@angular/core';
+import { AstDiff, NodeChange, TextDiffSegment } from '../models/ast-diff.model';
+import { AstNode, getChildNodes } from '../models/ast-node.model';
+import { getNodeLabel, getNodeMetadata } from '../models/node-metadata.model';
+import { AstManipulatorService } from './ast-manipulator.service';
+import { FormulaBuilderService } from './formula-builder.service';
+
+// A node of one of the two trees, with its place in that tree
+interface DiffEntry {
+  node: AstNode;
+  parent: DiffEntry | null;
+  index: number;
+  children: DiffEntry[];
+  // Equal keys mean equal subtrees
+  key: string;
+  size: number;
+}
+
+// Pairs of nodes taken to be the same node before and after
+interface Matching {
+  forward: Map<DiffEntry, DiffEntry>;
+  backward: Map<DiffEntry, DiffEntry>;
+}
+
+// Whitespace, strings, names and numbers, or any single character
+const TOKEN_PATTERN = /\s+|'(?:[^']|'')*'?|[$@]?[A-Za-z0-9_.]+|./g;
+
+/**
+ * Structural diff of two formula trees. Nodes are matched by id first (edits
+ * keep ids), then as identical subtrees, then by their place under matched
+ * parents. Unmatched nodes were inserted or deleted; matched ones can have a
+ * changed value or operator, or sit under a different parent.
+ *
+ * Also holds the history entry the visualizer compares the current tree with.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class AstDiffService {
+  private readonly astService = inject(AstManipulatorService);
+  private readonly formulaBuilder = inject(FormulaBuilderService);
+
+  private readonly _baseEntryId = signal<number | null>(null);
+
+  // The history entry the current tree is compared with, while the overlay is on
+  public readonly base = computed(() => {
+    const id = this._baseEntryId();
+    return this.astService.history().find(entry => entry.id === id) ?? null;
+  });
+
+  public readonly comparison = computed<AstDiff | null>(() => {
+    const base = this.base();
+    const astValue = this.astService.ast();
+    return base && astValue ? this.diff(base.ast, astValue) : null;
+  });
+
+  // Changes per node id; deleted nodes are keyed by their id in the old tree
+  public readonly marks = computed(() => {
+    const marks = new Map<string, NodeChange[]>();
+    this.comparison()?.changes.forEach(change => {
+      const id = (change.after ?? change.before)?.id;
+      if (id) {
+        marks.set(id, [...(marks.get(id) ?? []), change]);
+      }
+    });
+    return marks;
+  });
+
+  marksFor(nodeId: string): NodeChange[] {
+    return this.marks().get(nodeId) ?? [];
+  }
+
+  compareWith(entryId: number | null): void {
+    this._baseEntryId.set(entryId);
+  }
+
+  diff(before: AstNode, after: AstNode): AstDiff {
+    const oldEntries: DiffEntry[] = [];
+    const newEntries: DiffEntry[] = [];
+    this.flatten(before, null, 0, oldEntries);
+    this.flatten(after, null, 0, newEntries);
+
+    const matching: Matching = { forward: new Map(), backward: new Map() };
+    this.matchById(oldEntries, newEntries, matching);
+    this.matchIdenticalSubtrees(oldEntries, newEntries, matching);
+    this.matchParents(newEntries, matching);
+    this.matchSlots(oldEntries, newEntries, matching);
+
+    const changes: NodeChange[] = [];
+    newEntries.forEach(entry => {
+      const previous = matching.forward.get(entry);
+      if (!previous) {
+        changes.push({ kind: 'inserted', after: entry.node, description: `Inserted ${this.describe(entry.node)}` });
+        return;
+      }
+      if (this.label(previous.node) !== this.label(entry.node)) {
+        changes.push({
+          kind: 'changed',
+          before: previous.node,
+          after: entry.node,
+          description: `Was ${this.describe(previous.node)}`
+        });
+      }
+      if (this.hasMoved(entry, previous, matching)) {
+        changes.push({ kind: 'moved', before: previous.node, after: entry.node, description: 'Moved' });
+      }
+    });
+
+    const deleted = oldEntries.filter(entry => !matching.backward.has(entry));
+    deleted.forEach(entry => {
+      changes.push({ kind: 'deleted', before: entry.node, description: `Removed ${this.describe(entry.node)}` });
+    });
+
+    return {
+      changes,
+      removed: deleted.filter(entry => !entry.parent || matching.backward.has(entry.parent)).map(entry => entry.node),
+      text: this.diffText(this.formulaBuilder.buildFormula(before), this.formulaBuilder.buildFormula(after))
+    };
+  }
+
+  // Token-level longest common subsequence of the two texts
+  diffText(before: string, after: string): TextDiffSegment[] {
+    const a = before.match(TOKEN_PATTERN) ?? [];
+    const b = after.match(TOKEN_PATTERN) ?? [];
+
+    // The unchanged start and end need no table
+    let prefix = 0;
+    while (prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) prefix++;
+    let suffix = 0;
+    while (
+      suffix < a.length - prefix && suffix < b.length - prefix &&
+      a[a.length - 1 - suffix] === b[b.length - 1 - suffix]
+    ) suffix++;
+
+    const oldMiddle = a.slice(prefix, a.length - suffix);
+    const newMiddle = b.slice(prefix, b.length - suffix);
+
+    // lengths[i][j]: length of the common subsequence of oldMiddle[i..] and newMiddle[j..]
+    const lengths = Array.from({ length: oldMiddle.length + 1 }, () => new Array<number>(newMiddle.length + 1).fill(0));
+    for (let i = oldMiddle.length - 1; i >= 0; i--) {
+      for (let j = newMiddle.length - 1; j >= 0; j--) {
+        lengths[i][j] = oldMiddle[i] === newMiddle[j]
+          ? lengths[i + 1][j + 1] + 1
+          : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+      }
+    }
+
+    const segments: TextDiffSegment[] = [];
+    const push = (kind: TextDiffSegment['kind'], text: string) => {
+      const last = segments[segments.length - 1];
+      if (last?.kind === kind) {
+        last.text += text;
+      } else {
+        segments.push({ kind, text });
+      }
+    };
+
+    a.slice(0, prefix).forEach(token => push('equal', token));
+    let i = 0;
+    let j = 0;
+    while (i < oldMiddle.length && j < newMiddle.length) {
+      if (oldMiddle[i] === newMiddle[j]) {
+        push('equal', oldMiddle[i]);
+        i++;
+        j++;
+      } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+        push('deleted', oldMiddle[i++]);
+      } else {
+        push('inserted', newMiddle[j++]);
+      }
+    }
+    oldMiddle.slice(i).forEach(token => push('deleted', token));
+    newMiddle.slice(j).forEach(token => push('inserted', token));
+    a.slice(a.length - suffix).forEach(token => push('equal', token));
+
+    return segments;
+  }
+
+  // Lists the subtree in pre-order, parents before their children
+  private flatten(node: AstNode, parent: DiffEntry | null, index: number, entries: DiffEntry[]): DiffEntry {
+    const entry: DiffEntry = { node, parent, index, children: [], key: '', size: 1 };
+    entries.push(entry);
+
+    entry.children = getChildNodes(node).map((child, i) => this.flatten(child, entry, i, entries));
+    entry.key = `${this.label(node)}(${entry.children.map(child => child.key).join(',')})`;
+    entry.size += entry.children.reduce((sum, child) => sum + child.size, 0);
+    return entry;
+  }
+
+  private matchById(oldEntries: DiffEntry[], newEntries: DiffEntry[], matching: Matching): void {
+    const oldById = new Map(oldEntries.filter(entry => entry.node.id).map(entry => [entry.node.id, entry]));
+    newEntries.forEach(entry => {
+      const previous = entry.node.id ? oldById.get(entry.node.id) : undefined;
+      if (previous) {
+        this.link(entry, previous, matching);
+      }
+    });
+  }
+
+  // Largest first, so a repeated small subtree does not claim part of a bigger one
+  private matchIdenticalSubtrees(oldEntries: DiffEntry[], newEntries: DiffEntry[], matching: Matching): void {
+    [...newEntries].sort((a, b) => b.size - a.size).forEach(entry => {
+      if (matching.forward.has(entry)) return;
+
+      const previous = oldEntries.find(candidate => !matching.backward.has(candidate) && candidate.key === entry.key);
+      if (previous) {
+        this.linkSubtree(entry, previous, matching);
+      }
+    });
+  }
+
+  // A node whose children were matched to the children of one old node is that node
+  private matchParents(newEntries: DiffEntry[], matching: Matching): void {
+    [...newEntries].reverse().forEach(entry => {
+      if (matching.forward.has(entry)) return;
+
+      const previous = entry.children
+        .map(child => matching.forward.get(child)?.parent)
+        .find(parent => parent && !matching.backward.has(parent) && this.isSameKind(parent, entry));
+      if (previous) {
+        this.link(entry, previous, matching);
+      }
+    });
+  }
+
+  // What is left in the same slot of matched parents is the same node, possibly changed
+  private matchSlots(oldEntries: DiffEntry[], newEntries: DiffEntry[], matching: Matching): void {
+    newEntries.forEach(entry => {
+      if (matching.forward.has(entry)) return;
+
+      const previous = entry.parent
+        ? matching.forward.get(entry.parent)?.children[entry.index]
+        : oldEntries[0];
+      if (previous && !matching.backward.has(previous) && this.isSameKind(previous, entry)) {
+        this.link(entry, previous, matching);
+      }
+    });
+  }
+
+  private linkSubtree(entry: DiffEntry, previous: DiffEntry, matching: Matching): void {
+    if (!matching.forward.has(entry) && !matching.backward.has(previous)) {
+      this.link(entry, previous, matching);
+    }
+    entry.children.forEach((child, index) => this.linkSubtree(child, previous.children[index], matching));
+  }
+
+  private link(entry: DiffEntry, previous: DiffEntry, matching: Matching): void {
+    matching.forward.set(entry, previous);
+    matching.backward.set(previous, entry);
+  }
+
+  // Its nearest matched ancestor is not the counterpart of the old one's, or it
+  // swapped places with a sibling. Wrapping or unwrapping a node does not move it.
+  private hasMoved(entry: DiffEntry, previous: DiffEntry, matching: Matching): boolean {
+    const anchor = this.matchedAncestor(entry, matching.forward);
+    const previousAnchor = this.matchedAncestor(previous, matching.backward);
+    if ((anchor ? matching.forward.get(anchor) : null) !== previousAnchor) {
+      return true;
+    }
+
+    return !!entry.parent && anchor === entry.parent && previousAnchor === previous.parent &&
+      entry.index !== previous.index && entry.parent.children.length === previous.parent.children.length;
+  }
+
+  private matchedAncestor(entry: DiffEntry, matches: Map<DiffEntry, DiffEntry>): DiffEntry | null {
+    let ancestor = entry.parent;
+    while (ancestor && !matches.has(ancestor)) {
+      ancestor = ancestor.parent;
+    }
+    return ancestor;
+  }
+
+  private isSameKind(a: DiffEntry, b: DiffEntry): boolean {
+    return getNodeMetadata(a.node.type).category === getNodeMetadata(b.node.type).category;
+  }
+
+  // What a node is, without its children
+  private label(node: AstNode): string {
+    return `${node.type}:${getNodeLabel(node)}`;
+  }
+
+  private describe(node: AstNode): string {
+    return this.formulaBuilder.getNodeDescription(node);
+  }
+}
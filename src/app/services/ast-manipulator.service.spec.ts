@@ -0,0 +1,514 @@
+import { TestBed } from '@angular/core/testing';
+import { BinaryOperationNode, FunctionNode, UnaryOperationNode } from '../models/ast-node.model';
+import { parseFormula } from '../parser/formula-parser';
+import { provideMemoryStorage } from '../testing/workspace-storage';
+import { AstManipulatorService } from './ast-manipulator.service';
+import { FormulaBuilderService } from './formula-builder.service';
+import { FunctionRegistryService } from './function-registry.service';
+import { WorkspaceService } from './workspace.service';
+
+describe('AstManipulatorService', () => {
+  let service: AstManipulatorService;
+  let formulaBuilder: FormulaBuilderService;
+
+  const formula = () => formulaBuilder.buildFormula(service.ast());
+  const root = () => service.ast() as BinaryOperationNode;
+
+  beforeEach(() => {
+    TestBed.configureTestingModule({ providers: [provideMemoryStorage()] });
+    service = TestBed.inject(AstManipulatorService);
+    formulaBuilder = TestBed.inject(FormulaBuilderService);
+    service.setAst(parseFormula('PI * SQR(4)'));
+  });
+
+  describe('history', () => {
+    it('should describe each edit', () => {
+      service.deleteNode(root().right.id);
+
+      expect(formula()).toBe('PI');
+      expect(service.history().map(entry => entry.description)).toEqual(['Parsed formula', 'Deleted SQR(4)']);
+    });
+
+    it('should undo and redo an edit', () => {
+      service.deleteNode(root().right.id);
+
+      service.undo();
+      expect(formula()).toBe('PI * SQR(4)');
+      expect(service.canRedo()).toBe(true);
+
+      service.redo();
+      expect(formula()).toBe('PI');
+      expect(service.canRedo()).toBe(false);
+    });
+
+    it('should discard undone entries when a new edit is made', () => {
+      service.deleteNode(root().right.id);
+      service.undo();
+      service.deleteNode(root().left.id);
+
+      expect(formula()).toBe('SQR(4)');
+      expect(service.history().map(entry => entry.description)).toEqual(['Parsed formula', 'Deleted PI']);
+    });
+
+    it('should jump to any recorded state', () => {
+      service.deleteNode(root().right.id);
+      service.jumpToHistory(0);
+
+      expect(formula()).toBe('PI * SQR(4)');
+      expect(service.historyIndex()).toBe(0);
+    });
+  });
+
+  describe('insert operations', () => {
+    it('should wrap a node in a binary operation with a default right operand', () => {
+      service.wrapNode(root().left.id, 'ADDITION');
+
+      expect(formula()).toBe('(PI + ?) * SQR(4)');
+      expect(service.isComplete()).toBe(false);
+      expect(service.history()[1].description).toBe('Wrapped PI in addition');
+    });
+
+    it('should wrap a node in a function call', () => {
+      service.wrapNode(root().id, 'FUNCTION', 'ABS');
+
+      expect(formula()).toBe('ABS(PI * SQR(4))');
+    });
+
+    it('should append an argument to a function', () => {
+      service.appendArgument(root().right.id, { type: 'NUMBER', value: 2 });
+
+      const sqr = root().right as FunctionNode;
+      expect(sqr.arguments.length).toBe(2);
+      expect(sqr.arguments[1].id).toBeTruthy();
+    });
+
+    it('should replace a leaf and undo the replacement', () => {
+      service.replaceNode(root().left.id, { type: 'E' });
+      expect(formula()).toBe('E * SQR(4)');
+
+      service.undo();
+      expect(formula()).toBe('PI * SQR(4)');
+    });
+  });
+
+  describe('paste and duplicate', () => {
+    it('should paste over a node or into an empty slot with fresh ids', () => {
+      const pasted = parseFormula('$a + 1');
+      const pastedId = service.pasteNode(root().left.id, pasted);
+
+      expect(formula()).toBe('($a + 1) * SQR(4)');
+      expect(root().left.id).toBe(pastedId);
+      expect(service.history().at(-1)?.description).toBe('Pasted $a + 1 over PI');
+
+      service.setAst(parseFormula('MAX(?, 2)'));
+      const slot = (service.ast() as FunctionNode).arguments[0];
+      service.pasteNode(slot.id, pasted);
+      expect(formula()).toBe('MAX($a + 1, 2)');
+      expect(service.history().at(-1)?.description).toBe('Pasted $a + 1 into an empty slot');
+    });
+
+    it('should duplicate a function argument next to itself', () => {
+      const sqr = root().right as FunctionNode;
+      const copyId = service.duplicateNode(sqr.arguments[0].id);
+
+      const args = (root().right as FunctionNode).arguments;
+      expect(formula()).toBe('PI * SQR(4, 4)');
+      expect(args[1].id).toBe(copyId);
+      expect(args[1].id).not.toBe(args[0].id);
+    });
+
+    it('should duplicate into the first empty slot outside the subtree', () => {
+      service.setAst(parseFormula('? + SQRT($x * 2) * ?'));
+      const product = (root().right as BinaryOperationNode).left as FunctionNode;
+
+      service.duplicateNode(product.id);
+      expect(formula()).toBe('SQRT($x * 2) + SQRT($x * 2) * ?');
+      expect(service.history().at(-1)?.description).toBe('Duplicated SQRT($x * 2)');
+    });
+
+    it('should not duplicate without room for the copy', () => {
+      expect(service.duplicateNode(root().left.id)).toBeNull();
+      expect(service.history().length).toBe(1);
+    });
+  });
+
+  describe('in-place edits', () => {
+    beforeEach(() => service.setAst(parseFormula('$a + SQR(4)')));
+
+    const sqr = () => root().right as FunctionNode;
+
+    it('should edit a number and keep it selected', () => {
+      const id = sqr().arguments[0].id;
+      service.updateNumber(id, 2.5);
+
+      expect(formula()).toBe('$a + SQR(2.5)');
+      expect(service.selectedNodeId()).toBe(id);
+    });
+
+    it('should rename a variable with or without the leading $', () => {
+      service.renameVariable(root().left.id, 'b');
+      expect(formula()).toBe('$b + SQR(4)');
+
+      service.renameVariable(root().left.id, '$c');
+      expect(formula()).toBe('$c + SQR(4)');
+    });
+
+    it('should ignore invalid names', () => {
+      service.renameVariable(root().left.id, 'not valid');
+      service.renameFunction(sqr().id, '1SQR');
+
+      expect(service.history().length).toBe(1);
+    });
+
+    it('should swap an operator while keeping its operands', () => {
+      const left = root().left;
+      service.changeOperator(root().id, 'MULTIPLICATION');
+
+      expect(formula()).toBe('$a * SQR(4)');
+      expect(root().left.id).toBe(left.id);
+      expect(service.history()[1].description).toBe('Changed addition to multiplication');
+    });
+
+    it('should rename a function', () => {
+      service.renameFunction(sqr().id, 'SQRT');
+      expect(formula()).toBe('$a + SQRT(4)');
+    });
+
+    it('should convert a leaf to another kind and undo it', () => {
+      service.convertLeaf(root().left.id, 'PI');
+      expect(formula()).toBe('PI + SQR(4)');
+
+      service.convertLeaf(root().left.id, 'NUMBER');
+      expect(formula()).toBe('0 + SQR(4)');
+
+      service.undo();
+      expect(formula()).toBe('PI + SQR(4)');
+    });
+  });
+
+  describe('moves', () => {
+    beforeEach(() => service.setAst(parseFormula('MAX($a, $b, 2) - SQRT(?)')));
+
+    const max = () => root().left as FunctionNode;
+    const sqrt = () => root().right as FunctionNode;
+
+    it('should swap two operands as one step, keeping their ids', () => {
+      const [left, right] = [root().left.id, root().right.id];
+
+      expect(service.moveNode(left, right, 'swap')).toBe(true);
+
+      expect(formula()).toBe('SQRT(?) - MAX($a, $b, 2)');
+      expect([root().left.id, root().right.id]).toEqual([right, left]);
+      expect(service.history().map(entry => entry.description)).toEqual([
+        'Parsed formula',
+        'Swapped MAX($a, $b, 2) and SQRT(?)'
+      ]);
+    });
+
+    it('should reorder function arguments', () => {
+      const [a, b, two] = max().arguments.map(arg => arg.id);
+
+      service.moveNode(two, a, 'before');
+      expect(formula()).toBe('MAX(2, $a, $b) - SQRT(?)');
+
+      service.moveNode(two, b, 'after');
+      expect(formula()).toBe('MAX($a, $b, 2) - SQRT(?)');
+      expect(service.history().at(-1)?.description).toBe('Moved 2 after $b');
+    });
+
+    it('should reorder the arguments of a call that needs all of them', () => {
+      TestBed.inject(FunctionRegistryService).register({
+        name: 'MARGIN',
+        minArity: 2,
+        maxArity: 2,
+        parameterTypes: ['number', 'number'],
+        returnType: 'number',
+        description: 'Profit as a share of revenue',
+        implementation: ([profit, revenue]) => (profit as number) / (revenue as number)
+      });
+      service.setAst(parseFormula('MARGIN($a, $b)'));
+      const [a, b] = (service.ast() as FunctionNode).arguments.map(arg => arg.id);
+
+      service.moveNode(b, a, 'before');
+      expect(formula()).toBe('MARGIN($b, $a)');
+
+      expect(service.moveWithinParent(b, 1)).toBe(true);
+      expect(formula()).toBe('MARGIN($a, $b)');
+    });
+
+    it('should move a node into an empty slot, out of the call it came from', () => {
+      const b = max().arguments[1];
+
+      service.moveNode(b.id, sqrt().arguments[0].id, 'into');
+
+      expect(formula()).toBe('MAX($a, 2) - SQRT($b)');
+      expect(sqrt().arguments[0].id).toBe(b.id);
+    });
+
+    it('should leave an empty slot where an operand moved out', () => {
+      service.setAst(parseFormula('($a + $b) * MAX(1)'));
+      const sum = (root().left as UnaryOperationNode).expression as BinaryOperationNode;
+
+      service.moveNode(sum.left.id, (root().right as FunctionNode).arguments[0].id, 'before');
+      expect(formula()).toBe('(? + $b) * MAX($a, 1)');
+    });
+
+    it('should reject drops into the node itself or its own subtree', () => {
+      const call = max();
+
+      expect(service.moveError(call.id, call.arguments[0].id, 'swap')).toBe('A node cannot be dropped into its own subtree');
+      expect(service.moveError(call.arguments[0].id, call.id, 'swap'))
+        .toBe('A node cannot swap places with a node that contains it');
+      expect(service.moveError(call.id, call.id, 'swap')).toBe('A node cannot be dropped on itself');
+      expect(service.moveError(root().id, sqrt().id, 'swap')).toBe('The whole formula cannot be moved');
+      expect(service.moveNode(call.id, call.arguments[0].id, 'swap')).toBe(false);
+      expect(service.history().length).toBe(1);
+    });
+
+    it('should check that the target fits the position', () => {
+      const [a, b] = max().arguments.map(arg => arg.id);
+
+      expect(service.moveError(a, sqrt().id, 'into')).toBe('Only an empty slot can take a node');
+      expect(service.moveError(a, sqrt().id, 'before')).toBe('Only function arguments can go before or after another');
+      expect(service.moveError(a, b, 'before')).toBe('The node is already before it');
+      expect(service.moveError(a, b, 'after')).toBeNull();
+    });
+
+    it('should move a node among its siblings by keyboard', () => {
+      const a = max().arguments[0].id;
+
+      expect(service.moveWithinParent(a, 1)).toBe(true);
+      expect(formula()).toBe('MAX($b, $a, 2) - SQRT(?)');
+      expect(service.moveWithinParent(root().left.id, 1)).toBe(true);
+      expect(formula()).toBe('SQRT(?) - MAX($b, $a, 2)');
+      expect(service.moveWithinParent(root().right.id, 1)).toBe(false);
+    });
+  });
+
+  describe('deletion strategies', () => {
+    beforeEach(() => service.setAst(parseFormula('-$a + MAX(1, 2)')));
+
+    const max = () => root().right as FunctionNode;
+
+    it('should collapse a binary node to the surviving sibling by default', () => {
+      service.deleteNode(max().id);
+      expect(formula()).toBe('-$a');
+    });
+
+    it('should drop a function argument and leave a hole under a unary node when collapsing', () => {
+      service.deleteNode(max().arguments[0].id);
+      expect(formula()).toBe('-$a + MAX(2)');
+
+      service.deleteNode((root().left as UnaryOperationNode).expression.id);
+      expect(formula()).toBe('-? + MAX(2)');
+    });
+
+    it('should leave an empty slot for an argument the function needs when collapsing', () => {
+      service.setAst(parseFormula('SQR($x) + ROUND(1.5, 2)'));
+      const round = () => root().right as FunctionNode;
+
+      service.deleteNode((root().left as FunctionNode).arguments[0].id);
+      expect(formula()).toBe('SQR(?) + ROUND(1.5, 2)');
+
+      service.deleteNode(round().arguments[1].id);
+      service.deleteNode(round().arguments[0].id);
+      expect(formula()).toBe('SQR(?) + ROUND(?)');
+    });
+
+    it('should leave an empty slot with the hole strategy', () => {
+      service.setDeletionStrategy('hole');
+      service.deleteNode(max().arguments[1].id);
+
+      expect(formula()).toBe('-$a + MAX(1, ?)');
+      expect(service.placeholderCount()).toBe(1);
+      expect(service.isComplete()).toBe(false);
+    });
+
+    it('should replace the whole parent with an empty slot with the parent strategy', () => {
+      service.setDeletionStrategy('parent');
+      service.deleteNode(max().arguments[1].id);
+
+      expect(formula()).toBe('-$a + ?');
+      expect(service.history()[1].description).toBe('Deleted MAX(1, 2)');
+    });
+
+    it('should become complete again once the slot is filled', () => {
+      service.setDeletionStrategy('hole');
+      service.deleteNode(max().id);
+      service.replaceNode(root().right.id, { type: 'E' });
+
+      expect(formula()).toBe('-$a + E');
+      expect(service.isComplete()).toBe(true);
+    });
+  });
+
+  describe('multi-selection', () => {
+    beforeEach(() => service.setAst(parseFormula('$a + $b * $c')));
+
+    const product = () => root().right as BinaryOperationNode;
+    const selectedFormulas = () => service.selectedNodes().map(node => formulaBuilder.buildFormula(node));
+
+    it('should select without rebuilding the tree', () => {
+      const before = service.ast();
+      service.selectNode(root().left.id);
+
+      expect(service.ast()).toBe(before);
+      expect(service.isNodeSelected(root().left.id)).toBe(true);
+    });
+
+    it('should add and take out nodes with toggle', () => {
+      service.selectNode(root().left.id);
+      service.toggleNodeSelection(product().right.id);
+
+      expect(selectedFormulas()).toEqual(['$a', '$c']);
+      expect(service.selectedNodeId()).toBe(product().right.id);
+
+      service.toggleNodeSelection(product().right.id);
+      expect(selectedFormulas()).toEqual(['$a']);
+      expect(service.selectedNodeId()).toBe(root().left.id);
+    });
+
+    it('should select a range in tree order from the last selected node', () => {
+      service.selectNode(root().left.id);
+      service.selectWith({ nodeId: product().left.id, mode: 'range' });
+
+      expect(selectedFormulas()).toEqual(['$a', '$b * $c', '$b']);
+      expect(service.selectedNodeId()).toBe(root().left.id);
+    });
+
+    it('should select all nodes of a type', () => {
+      service.selectSameType(product().left.id);
+
+      expect(selectedFormulas()).toEqual(['$a', '$b', '$c']);
+    });
+
+    it('should clear the selection after an edit', () => {
+      service.selectSameType(root().left.id);
+      service.wrapNode(root().left.id, 'NEGATION');
+
+      expect(service.selectedNodeIds().size).toBe(0);
+      expect(service.selectedNodeId()).toBeNull();
+    });
+  });
+
+  describe('bulk operations', () => {
+    const args = () => (service.ast() as FunctionNode).arguments;
+
+    it('should delete several nodes as one step', () => {
+      service.setAst(parseFormula('MAX($a, $b, $c)'));
+      service.deleteNodes([args()[0].id, args()[2].id]);
+
+      expect(formula()).toBe('MAX($b)');
+      expect(service.history().map(entry => entry.description)).toEqual(['Parsed formula', 'Deleted 2 nodes']);
+    });
+
+    it('should leave out nodes inside other selected nodes', () => {
+      service.setAst(parseFormula('MAX($a + 1, 2, 3)'));
+      const sum = args()[0] as BinaryOperationNode;
+      service.deleteNodes([sum.left.id, sum.id, args()[2].id]);
+
+      expect(formula()).toBe('MAX(2)');
+      expect(service.history()[1].description).toBe('Deleted 2 nodes');
+    });
+
+    it('should wrap each node in a function', () => {
+      service.setAst(parseFormula('$a + $b'));
+      service.wrapNodes([root().left.id, root().right.id], 'ABS');
+
+      expect(formula()).toBe('ABS($a) + ABS($b)');
+      expect(service.history()[1].description).toBe('Wrapped 2 nodes in ABS');
+
+      service.wrapNodes([root().left.id], 'not a name');
+      expect(service.history().length).toBe(2);
+    });
+
+    it('should replace each node with a parameter', () => {
+      service.setAst(parseFormula('2 * $a + 2 * $b'));
+      const left = root().left as BinaryOperationNode;
+      const right = root().right as BinaryOperationNode;
+      service.replaceWithParameter([left.left.id, right.left.id], '$k');
+
+      expect(formula()).toBe('$k * $a + $k * $b');
+      expect(service.history()[1].description).toBe('Replaced 2 nodes with $k');
+    });
+
+    describe('extract', () => {
+      let workspace: WorkspaceService;
+
+      beforeEach(() => {
+        workspace = TestBed.inject(WorkspaceService);
+        service.setAst(parseFormula('SQR(2 * $a) + SQRT(2 * $a)'));
+      });
+
+      const inner = (node: unknown) => (node as FunctionNode).arguments[0];
+
+      it('should save the subtree and reference it in its place', () => {
+        expect(service.extractFormula([inner(root().left).id, inner(root().right).id], 'double')).toBeNull();
+
+        expect(formula()).toBe('SQR(@double) + SQRT(@double)');
+        expect(workspace.library().find(saved => saved.name === 'double')?.formula).toBe('2 * $a');
+        expect(service.history()[1].description).toBe('Extracted 2 * $a to @double');
+      });
+
+      it('should take the library entry back on undo', () => {
+        const saved = () => workspace.library().some(entry => entry.name === 'double');
+        service.extractFormula([inner(root().left).id], 'double');
+
+        service.undo();
+        expect(saved()).toBe(false);
+        expect(formula()).toBe('SQR(2 * $a) + SQRT(2 * $a)');
+
+        service.redo();
+        expect(saved()).toBe(true);
+
+        service.undo();
+        expect(service.extractFormula([inner(root().right).id], 'double')).toBeNull();
+        expect(formula()).toBe('SQR(2 * $a) + SQRT(@double)');
+      });
+
+      it('should refuse different subtrees, taken names and invalid names', () => {
+        expect(service.extractFormula([root().left.id, root().right.id], 'both'))
+          .toBe('Only copies of the same subtree can be extracted together');
+        expect(service.extractFormula([root().left.id], 'Simple')).toBe('There is already a formula named @Simple');
+        expect(service.extractFormula([root().left.id], 'two words')).toBe('Formula names use letters, digits and _');
+        expect(service.history().length).toBe(1);
+      });
+    });
+  });
+
+  describe('keyboard navigation', () => {
+    const selectedType = () => service.selectedNode()?.type;
+
+    it('should start at the root when nothing is selected', () => {
+      expect(service.selectFirstChild()).toBe(root().id);
+      expect(selectedType()).toBe('MULTIPLICATION');
+    });
+
+    it('should move between parent, children and siblings', () => {
+      service.selectNode(root().id);
+
+      expect(service.selectFirstChild()).toBe(root().left.id);
+      expect(service.selectSibling(1)).toBe(root().right.id);
+      expect(selectedType()).toBe('FUNCTION');
+
+      service.selectFirstChild();
+      expect(selectedType()).toBe('NUMBER');
+
+      service.selectParent();
+      service.selectSibling(-1);
+      expect(selectedType()).toBe('PI');
+    });
+
+    it('should stay put when there is nowhere to go', () => {
+      service.selectNode(root().left.id);
+
+      expect(service.selectFirstChild()).toBeNull();
+      expect(service.selectSibling(-1)).toBeNull();
+      expect(selectedType()).toBe('PI');
+
+      service.selectParent();
+      expect(service.selectParent()).toBeNull();
+      expect(selectedType()).toBe('MULTIPLICATION');
+    });
+  });
+});
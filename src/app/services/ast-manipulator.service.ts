@@ -1,15 +1,67 @@
-import { Injectable, computed, signal } from '@angular/core';
-import { AstNode, isBinaryOperation, isFunction, isUnaryOperation } from '../models/ast-node.model';
+import { Injectable, computed, inject, signal } from '@angular/core';
+import {
+  AstNode,
+  BinaryOperationNode,
+  FunctionNode,
+  getChildNodes,
+  isBinaryOperation,
+  isFunction,
+  isLeafNode,
+  isStructurallyEqual,
+  isUnaryOperation
+} from '../models/ast-node.model';
+import { AstCommand, HistoryEntry } from '../models/history.model';
+import { NodeMovePosition } from '../models/node-move.model';
+import { NodeSelectEvent } from '../models/selection.model';
+import {
+  ConvertibleLeafType,
+  FUNCTION_NAME_PATTERN,
+  PARAMETER_NAME_PATTERN,
+  REFERENCE_NAME_PATTERN
+} from '../models/node-edit.model';
+import { FormulaBuilderService } from './formula-builder.service';
+import { FormulaReferenceService } from './formula-reference.service';
+import { FunctionRegistryService } from './function-registry.service';
+import { WorkspaceService } from './workspace.service';
+
+const MAX_HISTORY_ENTRIES = 100;
+
+export type WrapperType = BinaryOperationNode['type'] | 'NEGATION' | 'FUNCTION';
+
+// What takes the place of a deleted node:
+// collapse - the surviving sibling (binary), nothing (function argument), or a hole (unary)
+// hole     - a PLACEHOLDER in the node's slot
+// parent   - the whole parent goes too, leaving a PLACEHOLDER in the parent's slot
+export type DeletionStrategy = 'collapse' | 'hole' | 'parent';
 
 @Injectable({
   providedIn: 'root' // Tree-shakeable singleton
 })
 export class AstManipulatorService {
+  private readonly formulaBuilder = inject(FormulaBuilderService);
+  private readonly references = inject(FormulaReferenceService);
+  private readonly functions = inject(FunctionRegistryService);
+  private readonly workspace = inject(WorkspaceService);
+
   private readonly _ast = signal<AstNode | null>(null);
+  // The selection is kept apart from the tree, so selecting does not rebuild it
+  private readonly _selectedNodeIds = signal<ReadonlySet<string>>(new Set());
+  // The node last selected on its own: navigation, the node editors and single-node commands use it
   private readonly _selectedNodeId = signal<string | null>(null);
+  private readonly _history = signal<HistoryEntry[]>([]);
+  private readonly _historyIndex = signal(-1);
+  private readonly _deletionStrategy = signal<DeletionStrategy>('collapse');
+  private nextHistoryId = 0;
 
   public readonly ast = this._ast.asReadonly();
   public readonly selectedNodeId = this._selectedNodeId.asReadonly();
+  public readonly selectedNodeIds = this._selectedNodeIds.asReadonly();
+  public readonly history = this._history.asReadonly();
+  public readonly historyIndex = this._historyIndex.asReadonly();
+  public readonly deletionStrategy = this._deletionStrategy.asReadonly();
+
+  public readonly canUndo = computed(() => this._historyIndex() > 0);
+  public readonly canRedo = computed(() => this._historyIndex() < this._history().length - 1);
 
   public readonly selectedNode = computed(() => {
     const astValue = this._ast();
@@ -19,6 +71,13 @@ export class AstManipulatorService {
     return this.findNodeById(astValue, selectedId);
   });
 
+  // Selected nodes in tree order
+  public readonly selectedNodes = computed(() => {
+    const astValue = this._ast();
+    const selectedIds = this._selectedNodeIds();
+    return astValue ? this.flatten(astValue).filter(node => selectedIds.has(node.id)) : [];
+  });
+
   public readonly nodeCount = computed(() => {
     const astValue = this._ast();
     return astValue ? this.countNodes(astValue) : 0;
@@ -29,106 +88,771 @@ export class AstManipulatorService {
     return astValue ? this.calculateDepth(astValue) : 0;
   });
 
+  public readonly placeholderCount = computed(() => {
+    const astValue = this._ast();
+    return astValue ? this.countPlaceholders(astValue) : 0;
+  });
+
+  public readonly isComplete = computed(() => this.placeholderCount() === 0);
+
   public readonly canDelete = computed(() => {
-    const selected = this.selectedNode();
     const astValue = this._ast();
-    
-    return selected !== null && selected !== astValue;
+    return this.selectedNodes().some(node => node !== astValue);
   });
 
+  // Replaces the tree and starts a new history with it as the first entry
   setAst(ast: AstNode): void {
     const astWithIds = this.addNodeIds(ast);
     this._ast.set(astWithIds);
-    this._selectedNodeId.set(null);
+    this.clearSelection();
+    this._history.set([this.createHistoryEntry('Parsed formula', astWithIds)]);
+    this._historyIndex.set(0);
+  }
+
+  // Runs a command against the current tree and records the result in the history
+  execute(command: AstCommand): boolean {
+    const currentAst = this._ast();
+    if (!currentAst) {
+      return false;
+    }
+
+    const result = command.execute(currentAst);
+    if (!result) {
+      return false;
+    }
+
+    const updatedAst = this.ensureNodeIds(result);
+    command.sideEffect?.apply();
+    this._ast.set(updatedAst);
+    this.clearSelection();
+
+    // A new edit discards any undone entries after the current one
+    const entries = this._history().slice(0, this._historyIndex() + 1);
+    entries.push({ ...this.createHistoryEntry(command.description, updatedAst), sideEffect: command.sideEffect });
+    const trimmed = entries.slice(-MAX_HISTORY_ENTRIES);
+    this._history.set(trimmed);
+    this._historyIndex.set(trimmed.length - 1);
+    return true;
   }
 
+  undo(): void {
+    if (this.canUndo()) {
+      this.jumpToHistory(this._historyIndex() - 1);
+    }
+  }
+
+  redo(): void {
+    if (this.canRedo()) {
+      this.jumpToHistory(this._historyIndex() + 1);
+    }
+  }
+
+  jumpToHistory(index: number): void {
+    const history = this._history();
+    const entry = history[index];
+    const current = this._historyIndex();
+    if (!entry || index === current) {
+      return;
+    }
+
+    // Side effects of the entries passed over are undone newest first, or redone in order
+    if (index < current) {
+      history.slice(index + 1, current + 1).reverse().forEach(passed => passed.sideEffect?.revert());
+    } else {
+      history.slice(current + 1, index + 1).forEach(passed => passed.sideEffect?.apply());
+    }
+
+    this._ast.set(entry.ast);
+    this.clearSelection();
+    this._historyIndex.set(index);
+  }
+
+  // Selects just this node, or nothing
   selectNode(nodeId: string | null): void {
     this._selectedNodeId.set(nodeId);
-    
+    this._selectedNodeIds.set(new Set(nodeId ? [nodeId] : []));
+  }
+
+  // A click on a node, with or without Ctrl or Shift
+  selectWith({ nodeId, mode }: NodeSelectEvent): void {
+    switch (mode) {
+      case 'toggle':
+        this.toggleNodeSelection(nodeId);
+        break;
+      case 'range':
+        this.selectRange(nodeId);
+        break;
+      default:
+        this.selectNode(nodeId);
+    }
+  }
+
+  // Ctrl+click: adds the node to the selection or takes it out
+  toggleNodeSelection(nodeId: string): void {
+    const selectedIds = new Set(this._selectedNodeIds());
+    if (selectedIds.delete(nodeId)) {
+      if (this._selectedNodeId() === nodeId) {
+        this._selectedNodeId.set([...selectedIds].pop() ?? null);
+      }
+    } else {
+      selectedIds.add(nodeId);
+      this._selectedNodeId.set(nodeId);
+    }
+    this._selectedNodeIds.set(selectedIds);
+  }
+
+  // Shift+click: the nodes from the last selected one to this one in tree order
+  selectRange(nodeId: string): void {
+    const currentAst = this._ast();
+    const anchorId = this._selectedNodeId();
+    if (!currentAst || !anchorId) {
+      this.selectNode(nodeId);
+      return;
+    }
+
+    const ids = this.flatten(currentAst).map(node => node.id);
+    const [from, to] = [ids.indexOf(anchorId), ids.indexOf(nodeId)].sort((a, b) => a - b);
+    if (from === -1) {
+      this.selectNode(nodeId);
+      return;
+    }
+    this._selectedNodeIds.set(new Set(ids.slice(from, to + 1)));
+  }
+
+  // Every node of the same type as this one, e.g. all additions
+  selectSameType(nodeId: string): void {
+    const currentAst = this._ast();
+    const node = this.findNode(nodeId);
+    if (!currentAst || !node) {
+      return;
+    }
+
+    this._selectedNodeId.set(nodeId);
+    this._selectedNodeIds.set(new Set(
+      this.flatten(currentAst).filter(other => other.type === node.type).map(other => other.id)
+    ));
+  }
+
+  isNodeSelected(nodeId: string): boolean {
+    return this._selectedNodeIds().has(nodeId);
+  }
+
+  // Selects the innermost node whose source span contains the offset
+  selectNodeAtOffset(offset: number): void {
     const currentAst = this._ast();
-    if (currentAst) {
-      const updatedAst = this.updateNodeSelection(currentAst, nodeId);
-      this._ast.set(updatedAst);
+    const node = currentAst ? this.findNodeAtOffset(currentAst, offset) : null;
+    const nodeId = node?.id ?? null;
+
+    if (nodeId !== this._selectedNodeId()) {
+      this.selectNode(nodeId);
     }
   }
 
+  // Keyboard navigation. Each move selects the neighbouring node and returns its id,
+  // or null when there is none; without a selection every move starts at the root.
+  selectParent(): string | null {
+    return this.moveSelection((root, selected) => this.findParent(root, selected.id));
+  }
+
+  selectFirstChild(): string | null {
+    return this.moveSelection((_, selected) => getChildNodes(selected)[0] ?? null);
+  }
+
+  selectSibling(offset: -1 | 1): string | null {
+    return this.moveSelection((root, selected) => {
+      const parent = this.findParent(root, selected.id);
+      if (!parent) return null;
+      const siblings = getChildNodes(parent);
+      return siblings[siblings.findIndex(sibling => sibling.id === selected.id) + offset] ?? null;
+    });
+  }
+
+  setDeletionStrategy(strategy: DeletionStrategy): void {
+    this._deletionStrategy.set(strategy);
+  }
+
   deleteNode(nodeId: string): void {
     const currentAst = this._ast();
-    if (!currentAst || currentAst.id === nodeId) {
+    const node = currentAst ? this.findNodeById(currentAst, nodeId) : null;
+    if (!node || currentAst.id === nodeId) {
+      return;
+    }
+
+    const formula = this.formulaBuilder.buildFormula(node);
+    const descriptions: Record<DeletionStrategy, string> = {
+      collapse: `Deleted ${formula}`,
+      hole: `Deleted ${formula}, leaving an empty slot`,
+      parent: `Deleted ${this.formulaBuilder.buildFormula(this.findParent(currentAst, nodeId))}`
+    };
+    this.execute({
+      description: descriptions[this._deletionStrategy()],
+      execute: ast => this.removeNode(ast, nodeId)
+    });
+  }
+
+  // Bulk operations on several nodes, each one undoable step. A node inside another
+  // one of them goes with its ancestor.
+  deleteNodes(nodeIds: string[]): void {
+    const root = this._ast();
+    const nodes = this.outermostNodes(nodeIds).filter(node => node !== root);
+    if (nodes.length <= 1) {
+      nodes.forEach(node => this.deleteNode(node.id));
+      return;
+    }
+
+    // An earlier deletion can take a later node with it, e.g. with its parent
+    this.execute({
+      description: `Deleted ${nodes.length} nodes`,
+      execute: ast => nodes.reduce(
+        (tree, node) => this.findNodeById(tree, node.id) ? this.removeNode(tree, node.id) : tree,
+        ast
+      )
+    });
+  }
+
+  wrapNodes(nodeIds: string[], functionName: string): void {
+    const name = functionName.trim();
+    const nodes = this.outermostNodes(nodeIds);
+    if (nodes.length === 0 || !FUNCTION_NAME_PATTERN.test(name)) {
+      return;
+    }
+
+    this.execute({
+      description: `Wrapped ${this.describeNodes(nodes)} in ${name}`,
+      execute: ast => nodes.reduce(
+        (tree, node) => this.replaceNodeById(tree, node.id, target => this.createWrapper(target, 'FUNCTION', name)),
+        ast
+      )
+    });
+  }
+
+  // Accepts the name with or without its leading '$'
+  replaceWithParameter(nodeIds: string[], name: string): void {
+    const bareName = name.trim().replace(/^\$/, '');
+    const nodes = this.outermostNodes(nodeIds);
+    if (nodes.length === 0 || !PARAMETER_NAME_PATTERN.test(bareName)) {
+      return;
+    }
+
+    this.execute({
+      description: `Replaced ${this.describeNodes(nodes)} with $${bareName}`,
+      execute: ast => nodes.reduce(
+        (tree, node) => this.replaceNodeById(tree, node.id, () => this.addNodeIds({ type: 'VARIABLE', name: `$${bareName}` })),
+        ast
+      )
+    });
+  }
+
+  // Saves the subtree to the library under the name and puts @name in its place. Several
+  // nodes are extracted together when they are the same subtree. Returns why it could not.
+  extractFormula(nodeIds: string[], name: string): string | null {
+    const bareName = name.trim().replace(/^@/, '');
+    const nodes = this.outermostNodes(nodeIds);
+    if (nodes.length === 0) {
+      return 'Nothing is selected';
+    }
+    if (!REFERENCE_NAME_PATTERN.test(bareName)) {
+      return 'Formula names use letters, digits and _';
+    }
+    if (this.workspace.library().some(saved => saved.name === bareName)) {
+      return `There is already a formula named @${bareName}`;
+    }
+    if (!nodes.every(node => isStructurallyEqual(node, nodes[0]))) {
+      return 'Only copies of the same subtree can be extracted together';
+    }
+
+    // The library entry goes with the edit, so undoing it frees the name again
+    const formula = this.formulaBuilder.buildFormula(nodes[0]);
+    this.execute({
+      description: `Extracted ${formula} to @${bareName}`,
+      sideEffect: {
+        apply: () => this.workspace.saveFormula(bareName, formula),
+        revert: () => this.workspace.deleteFormula(bareName)
+      },
+      execute: ast => nodes.reduce(
+        (tree, node) => this.replaceNodeById(tree, node.id, () => this.addNodeIds({ type: 'REFERENCE', name: bareName })),
+        ast
+      )
+    });
+    return null;
+  }
+
+  // Makes the node the first operand of a new operation, negation or function call
+  wrapNode(nodeId: string, type: WrapperType, functionName = ''): void {
+    const node = this.findNode(nodeId);
+    if (!node || (type === 'FUNCTION' && !functionName)) {
+      return;
+    }
+
+    const wrapperLabel = type === 'FUNCTION' ? functionName : type.toLowerCase();
+    this.execute({
+      description: `Wrapped ${this.formulaBuilder.buildFormula(node)} in ${wrapperLabel}`,
+      execute: ast => this.replaceNodeById(ast, nodeId, target => this.createWrapper(target, type, functionName))
+    });
+  }
+
+  appendArgument(functionId: string, argument: AstNode): void {
+    const node = this.findNode(functionId);
+    if (!node || !isFunction(node)) {
+      return;
+    }
+
+    this.execute({
+      description: `Added ${this.formulaBuilder.buildFormula(argument)} to ${node.name}`,
+      execute: ast => this.replaceNodeById(ast, functionId, target => ({
+        ...target,
+        arguments: [...(target as typeof node).arguments, this.addNodeIds(argument)]
+      }) as AstNode)
+    });
+  }
+
+  replaceNode(nodeId: string, replacement: AstNode): void {
+    const node = this.findNode(nodeId);
+    if (!node) {
+      return;
+    }
+
+    this.execute({
+      description: `Replaced ${this.formulaBuilder.buildFormula(node)} with ${this.formulaBuilder.buildFormula(replacement)}`,
+      execute: ast => this.replaceNodeById(ast, nodeId, () => this.addNodeIds(replacement))
+    });
+  }
+
+  findNode(nodeId: string): AstNode | null {
+    const currentAst = this._ast();
+    return currentAst ? this.findNodeById(currentAst, nodeId) : null;
+  }
+
+  // Puts a copy of the subtree in place of the node, or in the empty slot; returns the copy's id
+  pasteNode(nodeId: string, subtree: AstNode): string | null {
+    const node = this.findNode(nodeId);
+    if (!node) {
+      return null;
+    }
+
+    const pasted = this.addNodeIds(subtree);
+    const formula = this.formulaBuilder.buildFormula(pasted);
+    const description = node.type === 'PLACEHOLDER'
+      ? `Pasted ${formula} into an empty slot`
+      : `Pasted ${formula} over ${this.formulaBuilder.buildFormula(node)}`;
+    const applied = this.execute({
+      description,
+      execute: ast => this.replaceNodeById(ast, nodeId, () => pasted)
+    });
+    return applied ? pasted.id : null;
+  }
+
+  // Places a copy with fresh ids after the node in a function call, otherwise in the
+  // first empty slot of the tree; returns the copy's id, or null when there is no room
+  duplicateNode(nodeId: string): string | null {
+    const currentAst = this._ast();
+    const node = this.findNode(nodeId);
+    if (!currentAst || !node) {
+      return null;
+    }
+
+    const copy = this.addNodeIds(node);
+    const parent = this.findParent(currentAst, nodeId);
+    const slot = this.findFirstPlaceholder(currentAst, nodeId);
+    if (!(parent && isFunction(parent)) && !slot) {
+      return null;
+    }
+
+    const applied = this.execute({
+      description: `Duplicated ${this.formulaBuilder.buildFormula(node)}`,
+      execute: ast => parent && isFunction(parent)
+        ? this.replaceNodeById(ast, parent.id, target => {
+          const args = (target as typeof parent).arguments;
+          const index = args.findIndex(arg => arg.id === nodeId);
+          return { ...target, arguments: [...args.slice(0, index + 1), copy, ...args.slice(index + 1)] } as AstNode;
+        })
+        : this.replaceNodeById(ast, slot.id, () => copy)
+    });
+    return applied ? copy.id : null;
+  }
+
+  // Why the node cannot be moved there, or null when it can
+  moveError(nodeId: string, targetId: string, position: NodeMovePosition): string | null {
+    const currentAst = this._ast();
+    const node = this.findNode(nodeId);
+    const target = this.findNode(targetId);
+    if (!currentAst || !node || !target) {
+      return 'Nothing to move';
+    }
+    if (nodeId === targetId) {
+      return 'A node cannot be dropped on itself';
+    }
+    if (nodeId === currentAst.id) {
+      return 'The whole formula cannot be moved';
+    }
+    if (this.findNodeById(node, targetId)) {
+      return 'A node cannot be dropped into its own subtree';
+    }
+
+    const targetParent = this.findParent(currentAst, targetId);
+    switch (position) {
+      case 'swap':
+        return this.findNodeById(target, nodeId) ? 'A node cannot swap places with a node that contains it' : null;
+      case 'into':
+        return target.type === 'PLACEHOLDER' ? null : 'Only an empty slot can take a node';
+      default: {
+        if (!targetParent || !isFunction(targetParent)) {
+          return 'Only function arguments can go before or after another';
+        }
+        const ids = targetParent.arguments.map(arg => arg.id);
+        const offset = ids.indexOf(nodeId) - ids.indexOf(targetId);
+        const inPlace = ids.includes(nodeId) && offset === (position === 'before' ? -1 : 1);
+        return inPlace ? `The node is already ${position} it` : null;
+      }
+    }
+  }
+
+  // One undoable step; the moved nodes keep their ids. A node moved out of a function
+  // call leaves nothing behind, one moved out of any other slot leaves it empty.
+  moveNode(nodeId: string, targetId: string, position: NodeMovePosition): boolean {
+    if (this.moveError(nodeId, targetId, position)) {
+      return false;
+    }
+
+    const node = this.findNode(nodeId);
+    const target = this.findNode(targetId);
+    const nodeFormula = this.formulaBuilder.buildFormula(node);
+    const targetFormula = this.formulaBuilder.buildFormula(target);
+
+    switch (position) {
+      case 'swap':
+        return this.execute({
+          description: `Swapped ${nodeFormula} and ${targetFormula}`,
+          execute: ast => this.swapNodesById(ast, node, target)
+        });
+      case 'into':
+        return this.execute({
+          description: `Moved ${nodeFormula} into an empty slot`,
+          execute: ast => this.replaceNodeById(this.vacate(ast, nodeId), targetId, () => node)
+        });
+      default:
+        return this.execute({
+          description: `Moved ${nodeFormula} ${position} ${targetFormula}`,
+          execute: ast => {
+            // Within the same call the arguments are only reordered, so no slot is left empty
+            const sameParent = this.findParent(ast, nodeId)?.id === this.findParent(ast, targetId)?.id;
+            const vacated = sameParent ? ast : this.vacate(ast, nodeId);
+            const parent = this.findParent(vacated, targetId);
+            return this.replaceNodeById(vacated, parent.id, call => {
+              const args = (call as FunctionNode).arguments.filter(arg => arg.id !== nodeId);
+              const index = args.findIndex(arg => arg.id === targetId) + (position === 'after' ? 1 : 0);
+              return { ...call, arguments: [...args.slice(0, index), node, ...args.slice(index)] } as AstNode;
+            });
+          }
+        });
+    }
+  }
+
+  // Keyboard reordering: a function argument moves past its neighbour, an operand swaps with its sibling
+  moveWithinParent(nodeId: string, offset: -1 | 1): boolean {
+    const currentAst = this._ast();
+    const parent = currentAst ? this.findParent(currentAst, nodeId) : null;
+    if (!parent) {
+      return false;
+    }
+
+    const siblings = getChildNodes(parent);
+    const sibling = siblings[siblings.findIndex(child => child.id === nodeId) + offset];
+    if (!sibling) {
+      return false;
+    }
+
+    const position = !isFunction(parent) ? 'swap' : offset < 0 ? 'before' : 'after';
+    return this.moveNode(nodeId, sibling.id, position);
+  }
+
+  updateNumber(nodeId: string, value: number): void {
+    const node = this.findNode(nodeId);
+    if (node?.type !== 'NUMBER' || !Number.isFinite(value) || node.value === value) {
       return;
     }
 
-    const updatedAst = this.removeNodeRecursive(currentAst, nodeId);
-    if (updatedAst) {
-      this._ast.set(updatedAst);
-      this._selectedNodeId.set(null);
+    this.editNode(nodeId, `Changed ${node.value} to ${value}`, target => ({ ...target, value }) as AstNode);
+  }
+
+  // Accepts the name with or without its leading '$'
+  renameVariable(nodeId: string, name: string): void {
+    const node = this.findNode(nodeId);
+    const bareName = name.trim().replace(/^\$/, '');
+    if (node?.type !== 'VARIABLE' || !PARAMETER_NAME_PATTERN.test(bareName) || node.name === `$${bareName}`) {
+      return;
     }
+
+    this.editNode(nodeId, `Renamed ${node.name} to $${bareName}`, target => ({ ...target, name: `$${bareName}` }) as AstNode);
+  }
+
+  changeOperator(nodeId: string, operator: BinaryOperationNode['type']): void {
+    const node = this.findNode(nodeId);
+    if (!node || !isBinaryOperation(node) || node.type === operator) {
+      return;
+    }
+
+    const from = node.type.toLowerCase();
+    this.editNode(nodeId, `Changed ${from} to ${operator.toLowerCase()}`, target => ({ ...target, type: operator }) as AstNode);
+  }
+
+  renameFunction(nodeId: string, name: string): void {
+    const node = this.findNode(nodeId);
+    const newName = name.trim();
+    if (!node || !isFunction(node) || !FUNCTION_NAME_PATTERN.test(newName) || node.name === newName) {
+      return;
+    }
+
+    this.editNode(nodeId, `Renamed ${node.name} to ${newName}`, target => ({ ...target, name: newName }) as AstNode);
+  }
+
+  // Accepts the name with or without its leading '@'
+  renameReference(nodeId: string, name: string): void {
+    const node = this.findNode(nodeId);
+    const bareName = name.trim().replace(/^@/, '');
+    if (node?.type !== 'REFERENCE' || !REFERENCE_NAME_PATTERN.test(bareName) || node.name === bareName) {
+      return;
+    }
+
+    this.editNode(nodeId, `Renamed @${node.name} to @${bareName}`, target => ({ ...target, name: bareName }) as AstNode);
+  }
+
+  // Puts the named formula's tree in place of the reference; references inside it stay as they are
+  inlineReference(nodeId: string): void {
+    const node = this.findNode(nodeId);
+    const formula = node?.type === 'REFERENCE' ? this.references.resolve(node.name) : null;
+    if (!node || !formula) {
+      return;
+    }
+
+    this.execute({
+      description: `Inlined ${this.formulaBuilder.buildFormula(node)}`,
+      execute: ast => this.replaceNodeById(ast, nodeId, () => this.addNodeIds(formula))
+    });
+  }
+
+  convertLeaf(nodeId: string, type: ConvertibleLeafType): void {
+    const node = this.findNode(nodeId);
+    if (!node || !isLeafNode(node) || node.type === type) {
+      return;
+    }
+
+    const description = `Converted ${this.formulaBuilder.buildFormula(node)} to ${type.toLowerCase()}`;
+    this.editNode(nodeId, description, target => ({ ...this.createLeaf(type), id: target.id, span: target.span }));
   }
 
   clearAst(): void {
     this._ast.set(null);
+    this.clearSelection();
+    this._history.set([]);
+    this._historyIndex.set(-1);
+  }
+
+  private clearSelection(): void {
     this._selectedNodeId.set(null);
+    this._selectedNodeIds.set(new Set());
   }
 
-  private addNodeIds(node: AstNode, path = ''): AstNode {
-    const id = `${path}${node.type}_${crypto.randomUUID()}`;
-    const nodeWithId = { ...node, id, selected: false };
+  private createHistoryEntry(description: string, ast: AstNode): HistoryEntry {
+    return { id: this.nextHistoryId++, description, ast, timestamp: Date.now() };
+  }
+
+  // Edits a single node in place; it keeps its id, so it stays selected for further edits
+  private editNode(nodeId: string, description: string, edit: (node: AstNode) => AstNode): void {
+    const applied = this.execute({
+      description,
+      execute: ast => this.replaceNodeById(ast, nodeId, edit)
+    });
+
+    if (applied) {
+      this.selectNode(nodeId);
+    }
+  }
+
+  private createLeaf(type: ConvertibleLeafType): AstNode {
+    switch (type) {
+      case 'NUMBER':
+        return { type, value: 0 };
+      case 'VARIABLE':
+        return { type, name: '$x' };
+      default:
+        return { type };
+    }
+  }
+
+  private createWrapper(node: AstNode, type: WrapperType, functionName: string): AstNode {
+    // Only the new nodes get fresh ids; the wrapped subtree keeps its own
+    const id = this.createNodeId(type);
+
+    if (type === 'NEGATION') {
+      return { type, id, expression: node };
+    }
+    if (type === 'FUNCTION') {
+      return { type, id, name: functionName, arguments: [node] };
+    }
+    return { type, id, left: node, right: this.createPlaceholder() };
+  }
+
+  // Rebuilds the path to the target node, leaving untouched subtrees shared
+  private replaceNodeById(node: AstNode, targetId: string, replace: (node: AstNode) => AstNode): AstNode {
+    if (node.id === targetId) {
+      return replace(node);
+    }
 
     if (isBinaryOperation(node)) {
       return {
-        ...nodeWithId,
-        left: this.addNodeIds(node.left, `${path}left_`),
-        right: this.addNodeIds(node.right, `${path}right_`)
+        ...node,
+        left: this.replaceNodeById(node.left, targetId, replace),
+        right: this.replaceNodeById(node.right, targetId, replace)
       } as AstNode;
     }
 
     if (isUnaryOperation(node)) {
+      return { ...node, expression: this.replaceNodeById(node.expression, targetId, replace) } as AstNode;
+    }
+
+    if (isFunction(node)) {
       return {
-        ...nodeWithId,
-        expression: this.addNodeIds(node.expression, `${path}exp_`)
+        ...node,
+        arguments: node.arguments.map(arg => this.replaceNodeById(arg, targetId, replace))
       } as AstNode;
     }
 
-    if (isFunction(node)) {
+    return node;
+  }
+
+  // Puts each of two unrelated nodes in the other's place
+  private swapNodesById(node: AstNode, first: AstNode, second: AstNode): AstNode {
+    if (node.id === first.id) return second;
+    if (node.id === second.id) return first;
+
+    if (isBinaryOperation(node)) {
       return {
-        ...nodeWithId,
-        arguments: node.arguments.map((arg, index) => 
-          this.addNodeIds(arg, `${path}arg${index}_`)
-        )
+        ...node,
+        left: this.swapNodesById(node.left, first, second),
+        right: this.swapNodesById(node.right, first, second)
       } as AstNode;
     }
+    if (isUnaryOperation(node)) {
+      return { ...node, expression: this.swapNodesById(node.expression, first, second) } as AstNode;
+    }
+    if (isFunction(node)) {
+      return { ...node, arguments: node.arguments.map(arg => this.swapNodesById(arg, first, second)) } as AstNode;
+    }
+    return node;
+  }
 
-    return nodeWithId;
+  // Takes a node out of its slot: dropped from a function call, otherwise replaced by a placeholder
+  private vacate(ast: AstNode, nodeId: string): AstNode {
+    const parent = this.findParent(ast, nodeId);
+    if (parent && isFunction(parent)) {
+      return this.replaceNodeById(ast, parent.id, call => ({
+        ...call,
+        arguments: this.withoutArgument(call as FunctionNode, nodeId)
+      }) as AstNode);
+    }
+    return this.replaceNodeById(ast, nodeId, () => this.createPlaceholder());
   }
 
-  private updateNodeSelection(node: AstNode, selectedId: string | null): AstNode {
-    const updatedNode = { ...node, selected: node.id === selectedId };
+  // An argument the call cannot do without leaves its slot empty, e.g. SQR(?)
+  private withoutArgument(call: FunctionNode, nodeId: string): AstNode[] {
+    const minArity = this.functions.get(call.name)?.minArity ?? 1;
+    return call.arguments.length > minArity
+      ? call.arguments.filter(arg => arg.id !== nodeId)
+      : call.arguments.map(arg => arg.id === nodeId ? this.createPlaceholder() : arg);
+  }
+
+  private createPlaceholder(): AstNode {
+    return this.addNodeIds({ type: 'PLACEHOLDER' });
+  }
+
+  private createNodeId(type: string, path = ''): string {
+    return `${path}${type}_${crypto.randomUUID()}`;
+  }
+
+  // Gives ids to nodes a command created without one; existing ids are kept
+  private ensureNodeIds(node: AstNode): AstNode {
+    let updated = node;
+
+    if (isBinaryOperation(node)) {
+      updated = { ...node, left: this.ensureNodeIds(node.left), right: this.ensureNodeIds(node.right) } as AstNode;
+    } else if (isUnaryOperation(node)) {
+      updated = { ...node, expression: this.ensureNodeIds(node.expression) } as AstNode;
+    } else if (isFunction(node)) {
+      updated = { ...node, arguments: node.arguments.map(arg => this.ensureNodeIds(arg)) } as AstNode;
+    }
+
+    return updated.id ? updated : { ...updated, id: this.createNodeId(node.type) };
+  }
+
+  private addNodeIds(node: AstNode, path = ''): AstNode {
+    const id = this.createNodeId(node.type, path);
+    const nodeWithId = { ...node, id };
 
     if (isBinaryOperation(node)) {
       return {
-        ...updatedNode,
-        left: this.updateNodeSelection(node.left, selectedId),
-        right: this.updateNodeSelection(node.right, selectedId)
+        ...nodeWithId,
+        left: this.addNodeIds(node.left, `${path}left_`),
+        right: this.addNodeIds(node.right, `${path}right_`)
       } as AstNode;
     }
 
     if (isUnaryOperation(node)) {
       return {
-        ...updatedNode,
-        expression: this.updateNodeSelection(node.expression, selectedId)
+        ...nodeWithId,
+        expression: this.addNodeIds(node.expression, `${path}exp_`)
       } as AstNode;
     }
 
     if (isFunction(node)) {
       return {
-        ...updatedNode,
-        arguments: node.arguments.map(arg => 
-          this.updateNodeSelection(arg, selectedId)
+        ...nodeWithId,
+        arguments: node.arguments.map((arg, index) => 
+          this.addNodeIds(arg, `${path}arg${index}_`)
         )
       } as AstNode;
     }
 
-    return updatedNode;
+    return nodeWithId;
+  }
+
+  // The tree without the node, by the current deletion strategy
+  private removeNode(ast: AstNode, nodeId: string): AstNode {
+    switch (this._deletionStrategy()) {
+      case 'hole':
+        return this.replaceNodeById(ast, nodeId, () => this.createPlaceholder());
+      case 'parent': {
+        const parent = this.findParent(ast, nodeId);
+        return parent ? this.replaceNodeById(ast, parent.id, () => this.createPlaceholder()) : ast;
+      }
+      default:
+        return this.removeNodeRecursive(ast, nodeId);
+    }
+  }
+
+  // The nodes that are in the tree, in tree order, without those inside another one of them
+  private outermostNodes(nodeIds: string[]): AstNode[] {
+    const currentAst = this._ast();
+    const ids = new Set(nodeIds);
+    const nodes: AstNode[] = [];
+    const visit = (node: AstNode) => {
+      if (ids.has(node.id)) {
+        nodes.push(node);
+        return;
+      }
+      getChildNodes(node).forEach(visit);
+    };
+    if (currentAst) visit(currentAst);
+    return nodes;
+  }
+
+  private describeNodes(nodes: AstNode[]): string {
+    return nodes.length === 1 ? this.formulaBuilder.buildFormula(nodes[0]) : `${nodes.length} nodes`;
+  }
+
+  // All nodes in pre-order
+  private flatten(node: AstNode): AstNode[] {
+    return [node, ...getChildNodes(node).flatMap(child => this.flatten(child))];
   }
 
   private removeNodeRecursive(node: AstNode, targetId: string): AstNode | null {
@@ -152,8 +876,8 @@ export class AstManipulatorService {
 
     if (isUnaryOperation(node)) {
       if (node.expression.id === targetId) {
-        // Replace with a placeholder number
-        return { type: 'NUMBER', value: 0, id: `placeholder_${Date.now()}` } as AstNode;
+        // Nothing to collapse into, so leave the operand's slot empty
+        return { ...node, expression: this.createPlaceholder() } as AstNode;
       }
       
       const updatedExpression = this.removeNodeRecursive(node.expression, targetId);
@@ -161,22 +885,10 @@ export class AstManipulatorService {
     }
 
     if (isFunction(node)) {
-      const filteredArgs = node.arguments.filter(arg => arg.id !== targetId);
-      
-      // If all arguments removed, add placeholder
-      if (filteredArgs.length === 0 && node.arguments.length > 0) {
-        filteredArgs.push({ 
-          type: 'NUMBER', 
-          value: 0, 
-          id: `placeholder_${Date.now()}` 
-        } as AstNode);
-      }
-      
-      const updatedArgs = filteredArgs.map(arg => 
-        this.removeNodeRecursive(arg, targetId) || arg
-      );
-      
-      return { ...node, arguments: updatedArgs } as AstNode;
+      return {
+        ...node,
+        arguments: this.withoutArgument(node, targetId).map(arg => this.removeNodeRecursive(arg, targetId) || arg)
+      } as AstNode;
     }
 
     return node;
@@ -203,6 +915,75 @@ export class AstManipulatorService {
     return null;
   }
 
+  private findNodeAtOffset(node: AstNode, offset: number): AstNode | null {
+    if (node.span && (offset < node.span.start || offset > node.span.end)) {
+      return null;
+    }
+
+    let children: AstNode[] = [];
+    if (isBinaryOperation(node)) {
+      children = [node.left, node.right];
+    } else if (isUnaryOperation(node)) {
+      children = [node.expression];
+    } else if (isFunction(node)) {
+      children = node.arguments;
+    }
+
+    for (const child of children) {
+      const found = this.findNodeAtOffset(child, offset);
+      if (found) return found;
+    }
+
+    return node.span ? node : null;
+  }
+
+  private moveSelection(target: (root: AstNode, selected: AstNode) => AstNode | null): string | null {
+    const currentAst = this._ast();
+    if (!currentAst) return null;
+
+    const selected = this.selectedNode();
+    const next = selected ? target(currentAst, selected) : currentAst;
+    if (!next?.id) return null;
+
+    this.selectNode(next.id);
+    return next.id;
+  }
+
+  private findParent(node: AstNode, id: string): AstNode | null {
+    for (const child of getChildNodes(node)) {
+      const found = child.id === id ? node : this.findParent(child, id);
+      if (found) return found;
+    }
+
+    return null;
+  }
+
+  // Pre-order, skipping the subtree of the excluded node
+  private findFirstPlaceholder(node: AstNode, excludedId: string): AstNode | null {
+    if (node.id === excludedId) return null;
+    if (node.type === 'PLACEHOLDER') return node;
+
+    for (const child of getChildNodes(node)) {
+      const found = this.findFirstPlaceholder(child, excludedId);
+      if (found) return found;
+    }
+
+    return null;
+  }
+
+  private countPlaceholders(node: AstNode): number {
+    if (isBinaryOperation(node)) {
+      return this.countPlaceholders(node.left) + this.countPlaceholders(node.right);
+    }
+    if (isUnaryOperation(node)) {
+      return this.countPlaceholders(node.expression);
+    }
+    if (isFunction(node)) {
+      return node.arguments.reduce((sum, arg) => sum + this.countPlaceholders(arg), 0);
+    }
+    return node.type === 'PLACEHOLDER' ? 1 : 0;
+  }
+
   private countNodes(node: AstNode): number {
     let count = 1;
 
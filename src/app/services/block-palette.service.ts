@@ -0,0 +1,71 @@
+import { Injectable, computed, inject } from '@angular/core';
+import { AstNode } from '../models/ast-node.model';
+import { InsertAction, PaletteBlock } from '../models/block-palette.model';
+import { REFERENCE_NAME_PATTERN } from '../models/node-edit.model';
+import { NODE_METADATA } from '../models/node-metadata.model';
+import { FunctionRegistryService } from './function-registry.service';
+import { WorkspaceService } from './workspace.service';
+
+// Node types that can be described in metadata but never inserted by the user
+const HIDDEN_TYPES = ['PAREN', 'ERROR', 'PLACEHOLDER', 'WILDCARD'];
+
+@Injectable({
+  providedIn: 'root'
+})
+export class BlockPaletteService {
+  private readonly registry = inject(FunctionRegistryService);
+  private readonly workspace = inject(WorkspaceService);
+
+  // One block per node type, with the generic FUNCTION block expanded per known function
+  public readonly blocks = computed<PaletteBlock[]>(() => {
+    return Object.entries(NODE_METADATA)
+      .filter(([type]) => !HIDDEN_TYPES.includes(type))
+      .flatMap(([type, metadata]) => {
+        const block: PaletteBlock = {
+          key: type,
+          type: type as AstNode['type'],
+          category: metadata.category,
+          label: metadata.label,
+          icon: metadata.icon,
+          color: metadata.color
+        };
+
+        if (type !== 'FUNCTION') {
+          return [block];
+        }
+
+        return this.registry.functions().map(fn => ({
+          ...block,
+          key: `FUNCTION:${fn.name}`,
+          label: fn.name,
+          functionName: fn.name,
+          description: fn.description
+        }));
+      });
+  });
+
+  blocksFor(action: InsertAction): PaletteBlock[] {
+    return this.blocks().filter(block =>
+      action === 'wrap' ? block.category !== 'leaf' : block.category === 'leaf'
+    );
+  }
+
+  // Creates a fresh leaf for replace/append; operations are created by wrapping instead
+  createLeaf(block: PaletteBlock): AstNode {
+    switch (block.type) {
+      case 'NUMBER':
+        return { type: 'NUMBER', value: 0 };
+      case 'VARIABLE':
+        return { type: 'VARIABLE', name: '$x' };
+      case 'STRING':
+        return { type: 'STRING', value: '' };
+      case 'REFERENCE': {
+        // The first saved formula that can be referenced, renamed afterwards in the node editor
+        const saved = this.workspace.library().find(entry => REFERENCE_NAME_PATTERN.test(entry.name));
+        return { type: 'REFERENCE', name: saved?.name ?? 'formula' };
+      }
+      default:
+        return { type: block.type } as AstNode;
+    }
+  }
+}
@@ -0,0 +1,148 @@
+import { TestBed } from '@angular/core/testing';
+import { AstNode, BinaryOperationNode } from '../models/ast-node.model';
+import { AST_CLIPBOARD_TYPE } from '../models/clipboard.model';
+import { parseFormula } from '../parser/formula-parser';
+import { provideMemoryStorage } from '../testing/workspace-storage';
+import { AstManipulatorService } from './ast-manipulator.service';
+import { ClipboardService } from './clipboard.service';
+import { FormulaBuilderService } from './formula-builder.service';
+
+// The parts of DataTransfer the copy, cut and paste events use
+class FakeDataTransfer {
+  private readonly items = new Map<string, string>();
+
+  setData(type: string, value: string): void {
+    this.items.set(type, value);
+  }
+
+  getData(type: string): string {
+    return this.items.get(type) ?? '';
+  }
+}
+
+describe('ClipboardService', () => {
+  let service: ClipboardService;
+  let astService: AstManipulatorService;
+  let formulaBuilder: FormulaBuilderService;
+
+  const formula = () => formulaBuilder.buildFormula(astService.ast());
+  const root = () => astService.ast() as BinaryOperationNode;
+  const transfer = () => new FakeDataTransfer() as unknown as DataTransfer;
+
+  beforeEach(() => {
+    TestBed.configureTestingModule({ providers: [provideMemoryStorage()] });
+    service = TestBed.inject(ClipboardService);
+    astService = TestBed.inject(AstManipulatorService);
+    formulaBuilder = TestBed.inject(FormulaBuilderService);
+    astService.setAst(parseFormula('SQR($a + 1) * ?'));
+  });
+
+  describe('copy and paste events', () => {
+    it('should put the subtree on the clipboard as text and JSON without ids', () => {
+      const data = transfer();
+
+      expect(service.writeTo(data, root().left.id)).toBe(true);
+
+      expect(data.getData('text/plain')).toBe('SQR($a + 1)');
+      const json = data.getData(AST_CLIPBOARD_TYPE);
+      expect(JSON.parse(json)).toMatchObject({ type: 'FUNCTION', name: 'SQR' });
+      expect(json).not.toMatch(/"(id|selected|span)"/);
+    });
+
+    it('should paste a copied subtree into an empty slot with fresh ids', () => {
+      const data = transfer();
+      service.writeTo(data, root().left.id);
+
+      const result = service.pasteFrom(data, root().right.id);
+
+      expect(formula()).toBe('SQR($a + 1) * SQR($a + 1)');
+      expect(result).toEqual({ ok: true, nodeId: root().right.id });
+      expect(root().right.id).not.toBe(root().left.id);
+      expect(astService.history().at(-1)?.description).toBe('Pasted SQR($a + 1) into an empty slot');
+    });
+
+    it('should prefer the JSON, keeping nodes the text cannot express', () => {
+      const data = transfer();
+      data.setData('text/plain', 'ignored');
+      data.setData(AST_CLIPBOARD_TYPE, JSON.stringify({ type: 'ERROR', text: '#', message: 'Unexpected character "#"' }));
+
+      service.pasteFrom(data, root().right.id);
+      expect(root().right).toMatchObject({ type: 'ERROR', text: '#' });
+    });
+  });
+
+  describe('read', () => {
+    it('should parse text copied from elsewhere', () => {
+      const result = service.read({ formula: ' MAX($x, 2) ' });
+      expect(result.ok && result.source).toBe('text');
+      expect(result.ok && formulaBuilder.buildFormula(result.node)).toBe('MAX($x, 2)');
+    });
+
+    it('should fall back to the text when the JSON is not a formula tree', () => {
+      const invalid = [
+        '{"type":"ADDITION","left":{"type":"NUMBER","value":1}}',
+        '{"type":"NUMBER","value":"1"}',
+        '{"type":"WILDCARD","name":"x"}',
+        '[1, 2]',
+        '{not json'
+      ];
+      invalid.forEach(json => expect(service.read({ json, formula: '$b' })).toMatchObject({ ok: true, source: 'text' }));
+    });
+
+    it('should report text that does not parse', () => {
+      expect(service.read({ formula: '1 +' })).toEqual({ ok: false, error: 'Cannot paste "1 +": Unexpected end of formula' });
+      expect(service.read({ formula: '  ' })).toEqual({ ok: false, error: 'The clipboard holds no formula' });
+    });
+
+    it('should leave the tree alone when the paste fails', () => {
+      expect(service.paste(root().right.id, { formula: 'SQR(' }).ok).toBe(false);
+      expect(astService.history().length).toBe(1);
+    });
+  });
+
+  describe('toolbar buttons', () => {
+    let systemText: string;
+
+    beforeEach(() => {
+      systemText = '';
+      Object.defineProperty(navigator, 'clipboard', {
+        configurable: true,
+        value: {
+          writeText: async (text: string) => { systemText = text; },
+          readText: async () => systemText
+        }
+      });
+    });
+
+    afterEach(() => {
+      delete (navigator as { clipboard?: Clipboard }).clipboard;
+    });
+
+    it('should copy the text and paste the kept tree back', async () => {
+      const read = jest.spyOn(service, 'read');
+      await service.copy(root().left.id);
+      expect(systemText).toBe('SQR($a + 1)');
+
+      await service.pasteFromSystem(root().right.id);
+      expect(read).toHaveBeenCalledWith(service.copied());
+      expect(formula()).toBe('SQR($a + 1) * SQR($a + 1)');
+    });
+
+    it('should parse text that was not copied here', async () => {
+      await service.copy(root().left.id);
+      systemText = 'PI / 2';
+
+      await service.pasteFromSystem(root().right.id);
+      expect(formula()).toBe('SQR($a + 1) * (PI / 2)');
+    });
+
+    it('should cut a subtree as one undoable deletion', async () => {
+      await service.cut(root().left.id);
+
+      expect(systemText).toBe('SQR($a + 1)');
+      expect((astService.ast() as AstNode).type).toBe('PLACEHOLDER');
+      astService.undo();
+      expect(formula()).toBe('SQR($a + 1) * ?');
+    });
+  });
+});
@@ -0,0 +1,178 @@
+import { Injectable, inject, signal } from '@angular/core';
+import { AstNode, mapChildNodes } from '../models/ast-node.model';
+import {
+  AST_CLIPBOARD_TYPE,
+  ClipboardPasteResult,
+  ClipboardPayload,
+  ClipboardReadResult
+} from '../models/clipboard.model';
+import { parseFormula } from '../parser/formula-parser';
+import { AstManipulatorService } from './ast-manipulator.service';
+import { FormulaBuilderService } from './formula-builder.service';
+
+/**
+ * Copy, cut and paste of subtrees. A copied subtree goes to the clipboard as
+ * formula text and as JSON; pasting prefers the JSON and parses plain text
+ * copied from elsewhere. Pasted subtrees get fresh ids.
+ *
+ * The copy, cut and paste events carry both formats. The asynchronous
+ * clipboard API behind the toolbar buttons only takes text, so the last
+ * copied subtree is also kept here and used when its text is pasted back.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class ClipboardService {
+  private readonly astService = inject(AstManipulatorService);
+  private readonly formulaBuilder = inject(FormulaBuilderService);
+
+  private readonly _copied = signal<ClipboardPayload | null>(null);
+
+  public readonly copied = this._copied.asReadonly();
+
+  serialize(node: AstNode): ClipboardPayload {
+    return {
+      formula: this.formulaBuilder.buildFormula(node),
+      json: JSON.stringify(this.withoutState(node))
+    };
+  }
+
+  // The JSON tree when there is a valid one, otherwise the parsed text
+  read(payload: Partial<ClipboardPayload>): ClipboardReadResult {
+    const tree = payload.json ? this.parseTree(payload.json) : null;
+    if (tree) {
+      return { ok: true, node: tree, source: 'json' };
+    }
+
+    const formula = payload.formula?.trim();
+    if (!formula) {
+      return { ok: false, error: 'The clipboard holds no formula' };
+    }
+    try {
+      return { ok: true, node: parseFormula(formula), source: 'text' };
+    } catch (error) {
+      return { ok: false, error: `Cannot paste "${formula}": ${error instanceof Error ? error.message : error}` };
+    }
+  }
+
+  // For a copy or cut event
+  writeTo(data: DataTransfer, nodeId: string): boolean {
+    const payload = this.copyNode(nodeId);
+    if (!payload) {
+      return false;
+    }
+
+    data.setData('text/plain', payload.formula);
+    data.setData(AST_CLIPBOARD_TYPE, payload.json);
+    return true;
+  }
+
+  // For a paste event
+  pasteFrom(data: DataTransfer, nodeId: string): ClipboardPasteResult {
+    return this.paste(nodeId, {
+      json: data.getData(AST_CLIPBOARD_TYPE),
+      formula: data.getData('text/plain')
+    });
+  }
+
+  async copy(nodeId: string): Promise<ClipboardPayload | null> {
+    const payload = this.copyNode(nodeId);
+    if (payload) {
+      await navigator.clipboard.writeText(payload.formula);
+    }
+    return payload;
+  }
+
+  async cut(nodeId: string): Promise<ClipboardPayload | null> {
+    const payload = await this.copy(nodeId);
+    if (payload) {
+      this.astService.deleteNode(nodeId);
+    }
+    return payload;
+  }
+
+  async pasteFromSystem(nodeId: string): Promise<ClipboardPasteResult> {
+    const formula = await navigator.clipboard.readText();
+    const copied = this._copied();
+    return this.paste(nodeId, copied?.formula === formula ? copied : { formula });
+  }
+
+  paste(nodeId: string, payload: Partial<ClipboardPayload>): ClipboardPasteResult {
+    const result = this.read(payload);
+    if (result.ok === false) {
+      return result;
+    }
+
+    const pastedId = this.astService.pasteNode(nodeId, result.node);
+    return pastedId ? { ok: true, nodeId: pastedId } : { ok: false, error: 'Nothing to paste into' };
+  }
+
+  private copyNode(nodeId: string): ClipboardPayload | null {
+    const node = this.astService.findNode(nodeId);
+    if (!node) {
+      return null;
+    }
+
+    const payload = this.serialize(node);
+    this._copied.set(payload);
+    return payload;
+  }
+
+  // JSON from another app can be anything, so only well-formed trees are taken
+  private parseTree(json: string): AstNode | null {
+    try {
+      const value: unknown = JSON.parse(json);
+      return this.isTree(value) ? this.withoutState(value) : null;
+    } catch {
+      return null;
+    }
+  }
+
+  private isTree(value: unknown): value is AstNode {
+    if (typeof value !== 'object' || value === null) {
+      return false;
+    }
+
+    const node = value as Record<string, unknown>;
+    const isText = (key: string) => typeof node[key] === 'string';
+    switch (node['type']) {
+      case 'ADDITION':
+      case 'SUBTRACTION':
+      case 'MULTIPLICATION':
+      case 'DIVISION':
+      case 'POWER':
+        return this.isTree(node['left']) && this.isTree(node['right']);
+      case 'NEGATION':
+      case 'PAREN':
+        return this.isTree(node['expression']);
+      case 'FUNCTION':
+        return isText('name') && Array.isArray(node['arguments']) &&
+          node['arguments'].every(arg => this.isTree(arg));
+      case 'NUMBER':
+        return typeof node['value'] === 'number' && Number.isFinite(node['value']);
+      case 'STRING':
+        return isText('value');
+      case 'VARIABLE':
+      case 'REFERENCE':
+        return isText('name');
+      case 'ERROR':
+        return isText('text') && isText('message');
+      case 'PI':
+      case 'E':
+      case 'PLACEHOLDER':
+        return true;
+      default:
+        return false;
+    }
+  }
+
+  // The manipulator assigns new ids when the subtree is pasted; JSON from older
+  // versions may also carry a selected flag
+  private withoutState(node: AstNode): AstNode {
+    const copy = mapChildNodes(node, child => this.withoutState(child));
+    delete copy.id;
+    delete (copy as { selected?: boolean }).selected;
+    delete copy.span;
+    return copy;
+  }
+}
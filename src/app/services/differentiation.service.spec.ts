@@ -0,0 +1,61 @@
+import { TestBed } from '@angular/core/testing';
+import { parseFormula } from '../parser/formula-parser';
+import { provideMemoryStorage } from '../testing/workspace-storage';
+import { DifferentiationService } from './differentiation.service';
+import { FormulaBuilderService } from './formula-builder.service';
+import { FormulaEvaluatorService } from './formula-evaluator.service';
+
+describe('DifferentiationService', () => {
+  let differentiation: DifferentiationService;
+  let formulaBuilder: FormulaBuilderService;
+  let evaluator: FormulaEvaluatorService;
+
+  const derive = (formula: string, parameter = 'x') =>
+    formulaBuilder.buildFormula(differentiation.differentiate(parseFormula(formula), parameter));
+
+  beforeEach(() => {
+    TestBed.configureTestingModule({ providers: [provideMemoryStorage()] });
+    differentiation = TestBed.inject(DifferentiationService);
+    formulaBuilder = TestBed.inject(FormulaBuilderService);
+    evaluator = TestBed.inject(FormulaEvaluatorService);
+  });
+
+  it.each([
+    ['$x + 5', '1'],
+    ['3 * $x - $y', '3'],
+    ['$x * $y', '$y'],
+    ['$x ^ 3', '3 * $x ^ 2'],
+    ['-$x', '-1'],
+    ['SIN($x)', 'COS($x)'],
+    ['COS(2 * $x)', '-SIN(2 * $x) * 2'],
+    ['EXP($x)', 'EXP($x)'],
+    ['LOG($x)', '1 / $x'],
+    ['SQR($x)', '2 * $x'],
+    ['PI * SQR($r)', '0']
+  ])('should differentiate %s to %s', (input, output) => {
+    expect(derive(input)).toBe(output);
+  });
+
+  it('should treat other parameters as constants', () => {
+    expect(derive('PI * SQR($r)', '$r')).toBe('PI * (2 * $r)');
+  });
+
+  it.each([
+    ['$x / ($x + 1)'],
+    ['SQRT($x) * $x'],
+    ['2 ^ $x'],
+    ['$x ^ $x']
+  ])('should match a numeric derivative of %s', formula => {
+    const ast = parseFormula(formula);
+    const derivative = differentiation.differentiate(ast, 'x');
+    const h = 1e-6;
+    const numeric = (evaluator.evaluate(ast, { x: 2 + h }) - evaluator.evaluate(ast, { x: 2 - h })) / (2 * h);
+
+    expect(evaluator.evaluate(derivative, { x: 2 })).toBeCloseTo(numeric, 5);
+  });
+
+  it('should report functions it cannot differentiate', () => {
+    const result = differentiation.tryDifferentiate(parseFormula('ABS($x)'), 'x');
+    expect(result.ok === false && result.error.message).toBe('Cannot differentiate ABS');
+  });
+});
@@ -0,0 +1,173 @@
+import { Injectable, inject } from '@angular/core';
+import {
+  AstNode,
+  BinaryOperationNode,
+  FunctionNode,
+  isBinaryOperation,
+  isFunction,
+  isUnaryOperation
+} from '../models/ast-node.model';
+import { DerivativeResult } from '../models/derivative.model';
+import { EvaluationError, isEvaluationError } from '../models/evaluation.model';
+import { FormulaReferenceService } from './formula-reference.service';
+import { SimplifierService } from './simplifier.service';
+
+const ZERO: AstNode = { type: 'NUMBER', value: 0 };
+const ONE: AstNode = { type: 'NUMBER', value: 1 };
+
+const num = (value: number): AstNode => ({ type: 'NUMBER', value });
+const call = (name: string, ...args: AstNode[]): AstNode => ({ type: 'FUNCTION', name, arguments: args });
+const isZero = (node: AstNode): boolean => node.type === 'NUMBER' && node.value === 0;
+const isOne = (node: AstNode): boolean => node.type === 'NUMBER' && node.value === 1;
+
+// Builders that drop the zeros and ones the chain rule produces, e.g. 0 * u or u' * 1
+const add = (left: AstNode, right: AstNode): AstNode =>
+  isZero(left) ? right : isZero(right) ? left : { type: 'ADDITION', left, right };
+
+const sub = (left: AstNode, right: AstNode): AstNode =>
+  isZero(right) ? left : isZero(left) ? neg(right) : { type: 'SUBTRACTION', left, right };
+
+const mul = (left: AstNode, right: AstNode): AstNode =>
+  isZero(left) || isZero(right) ? ZERO
+    : isOne(left) ? right
+    : isOne(right) ? left
+    : { type: 'MULTIPLICATION', left, right };
+
+const div = (left: AstNode, right: AstNode): AstNode =>
+  isZero(left) ? ZERO : isOne(right) ? left : { type: 'DIVISION', left, right };
+
+const pow = (left: AstNode, right: AstNode): AstNode => ({ type: 'POWER', left, right });
+
+const neg = (expression: AstNode): AstNode => isZero(expression) ? ZERO : { type: 'NEGATION', expression };
+
+/**
+ * Symbolic derivative of a formula with respect to one parameter. Other
+ * parameters are treated as constants. The result is passed through the
+ * simplifier, so it reads the way it would be written by hand.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class DifferentiationService {
+  private readonly simplifier = inject(SimplifierService);
+  private readonly references = inject(FormulaReferenceService);
+
+  // Derivatives of f(u) with respect to u; the chain rule multiplies by u'
+  private readonly functionRules: Record<string, (u: AstNode) => AstNode> = {
+    'SIN': u => call('COS', u),
+    'COS': u => neg(call('SIN', u)),
+    'TAN': u => div(ONE, call('SQR', call('COS', u))),
+    'EXP': u => call('EXP', u),
+    'LOG': u => div(ONE, u),
+    'LOG10': u => div(ONE, mul(u, call('LOG', num(10)))),
+    'SQRT': u => div(ONE, mul(num(2), call('SQRT', u))),
+    'SQR': u => mul(num(2), u)
+  };
+
+  // Accepts the parameter name with or without its leading '$'
+  differentiate(ast: AstNode, parameter: string): AstNode {
+    const name = parameter.replace(/^\$/, '');
+    return this.simplifier.simplify(this.visit(this.references.expand(ast), name)).ast;
+  }
+
+  tryDifferentiate(ast: AstNode, parameter: string): DerivativeResult {
+    try {
+      return { ok: true, ast: this.differentiate(ast, parameter) };
+    } catch (error) {
+      if (isEvaluationError(error)) {
+        return { ok: false, error };
+      }
+      throw error;
+    }
+  }
+
+  private visit(node: AstNode, name: string): AstNode {
+    if (!this.dependsOn(node, name)) {
+      return ZERO;
+    }
+
+    if (isBinaryOperation(node)) {
+      return this.visitBinaryOperation(node, name);
+    }
+
+    if (isUnaryOperation(node)) {
+      const derivative = this.visit(node.expression, name);
+      return node.type === 'NEGATION' ? neg(derivative) : derivative;
+    }
+
+    if (isFunction(node)) {
+      return this.visitFunction(node, name);
+    }
+
+    // The only leaf that depends on the parameter is the parameter itself
+    return ONE;
+  }
+
+  private visitBinaryOperation(node: BinaryOperationNode, name: string): AstNode {
+    const u = node.left;
+    const v = node.right;
+    const du = this.visit(u, name);
+    const dv = this.visit(v, name);
+
+    switch (node.type) {
+      case 'ADDITION':
+        return add(du, dv);
+      case 'SUBTRACTION':
+        return sub(du, dv);
+      case 'MULTIPLICATION':
+        return add(mul(du, v), mul(u, dv));
+      case 'DIVISION':
+        return div(sub(mul(du, v), mul(u, dv)), pow(v, num(2)));
+      case 'POWER':
+        return this.visitPower(u, v, du, dv, name);
+    }
+  }
+
+  private visitPower(u: AstNode, v: AstNode, du: AstNode, dv: AstNode, name: string): AstNode {
+    // Power rule: (u^n)' = n * u^(n-1) * u'
+    if (!this.dependsOn(v, name)) {
+      return mul(mul(v, pow(u, sub(v, ONE))), du);
+    }
+
+    // Exponential rule: (a^v)' = a^v * ln(a) * v'
+    if (!this.dependsOn(u, name)) {
+      return mul(mul(pow(u, v), call('LOG', u)), dv);
+    }
+
+    // General case: (u^v)' = u^v * (v' * ln(u) + v * u' / u)
+    return mul(pow(u, v), add(mul(dv, call('LOG', u)), div(mul(v, du), u)));
+  }
+
+  private visitFunction(node: FunctionNode, name: string): AstNode {
+    const rule = this.functionRules[node.name.toUpperCase()];
+    if (!rule || node.arguments.length !== 1) {
+      throw new EvaluationError('UNSUPPORTED_NODE', `Cannot differentiate ${node.name}`, node.id);
+    }
+
+    const [u] = node.arguments;
+    return mul(rule(u), this.visit(u, name));
+  }
+
+  private dependsOn(node: AstNode, name: string): boolean {
+    if (isBinaryOperation(node)) {
+      return this.dependsOn(node.left, name) || this.dependsOn(node.right, name);
+    }
+    if (isUnaryOperation(node)) {
+      return this.dependsOn(node.expression, name);
+    }
+    if (isFunction(node)) {
+      return node.arguments.some(arg => this.dependsOn(arg, name));
+    }
+
+    switch (node.type) {
+      case 'VARIABLE':
+        return node.name.replace(/^\$/, '') === name;
+      case 'STRING':
+      case 'ERROR':
+      case 'PLACEHOLDER':
+        throw new EvaluationError('UNSUPPORTED_NODE', `Cannot differentiate ${node.type.toLowerCase()} nodes`, node.id);
+      default:
+        return false;
+    }
+  }
+}
@@ -0,0 +1,110 @@
+import { TestBed } from '@angular/core/testing';
+import { isStructurallyEqual } from '../models/ast-node.model';
+import { FormatterOptions } from '../models/formatter-options.model';
+import { parseFormula } from '../parser/formula-parser';
+import { FormulaBuilderService } from './formula-builder.service';
+
+describe('FormulaBuilderService', () => {
+  let formulaBuilder: FormulaBuilderService;
+
+  const format = (formula: string, options: Partial<FormatterOptions> = {}) =>
+    formulaBuilder.buildFormula(parseFormula(formula), options);
+
+  beforeEach(() => {
+    formulaBuilder = TestBed.inject(FormulaBuilderService);
+  });
+
+  describe('defaults', () => {
+    it.each([
+      ['3.14159 * $r'],
+      ['0.1 + 0.2'],
+      ['1e-7 * 2.5e+21'],
+      ['($b + SQRT(SQR($b) - 4 * $a)) / (2 * $a)'],
+      ["CONCAT('it''s', ?)"]
+    ])('should round-trip %s', (formula) => {
+      const ast = parseFormula(formula);
+      expect(isStructurallyEqual(parseFormula(formulaBuilder.buildFormula(ast)), ast)).toBe(true);
+    });
+
+    it('should keep every digit of a number', () => {
+      expect(format('3.14159')).toBe('3.14159');
+      expect(format('0.000123456789')).toBe('0.000123456789');
+    });
+  });
+
+  describe('numbers', () => {
+    it('should round to significant digits', () => {
+      expect(format('3.14159 + 1234567', { numberFormat: 'significant', significantDigits: 3 }))
+        .toBe('3.14 + 1230000');
+    });
+
+    it('should use the decimal separator of a locale', () => {
+      expect(format('2.5 * $x', { locale: 'de-DE' })).toBe('2,5 * $x');
+      expect(format('2.5 * $x', { locale: 'en-US' })).toBe('2.5 * $x');
+    });
+  });
+
+  it('should leave out spaces around operators', () => {
+    expect(format('$a + $b * 2', { operatorSpacing: false })).toBe('$a+$b*2');
+  });
+
+  describe('parentheses', () => {
+    it('should keep the user\'s parentheses by default', () => {
+      expect(format('(($a)) + ($b * 2)')).toBe('(($a)) + ($b * 2)');
+    });
+
+    it('should print only the parentheses the precedence needs', () => {
+      const options = { parentheses: 'minimal' } as const;
+      expect(format('(($a)) + ($b * 2)', options)).toBe('$a + $b * 2');
+      expect(format('(($a + $b)) * 2', options)).toBe('($a + $b) * 2');
+      expect(format('$a - ($b - $c)', options)).toBe('$a - ($b - $c)');
+      expect(format('-(($a + 1))', options)).toBe('-($a + 1)');
+      expect(format('SQRT(($x))', options)).toBe('SQRT($x)');
+    });
+  });
+
+  it('should join arguments with the separator', () => {
+    expect(format('MAX(1, 2, 3)', { argumentSeparator: '; ' })).toBe('MAX(1; 2; 3)');
+  });
+
+  describe('line breaking', () => {
+    it('should keep short calls on one line', () => {
+      expect(format('MAX(1, 2)', { lineWidth: 20 })).toBe('MAX(1, 2)');
+    });
+
+    it('should put each argument of a long call on its own indented line', () => {
+      expect(format('MAX(SQRT($alpha), MIN($beta, $gamma))', { lineWidth: 20 })).toBe([
+        'MAX(',
+        '  SQRT($alpha),',
+        '  MIN($beta, $gamma)',
+        ')'
+      ].join('\n'));
+    });
+
+    it('should indent nested broken calls further', () => {
+      const formula = format('MAX(MIN($alpha, $beta, $gamma), 1)', { lineWidth: 16, indent: '    ' });
+      expect(formula).toBe([
+        'MAX(',
+        '    MIN(',
+        '        $alpha,',
+        '        $beta,',
+        '        $gamma',
+        '    ),',
+        '    1',
+        ')'
+      ].join('\n'));
+    });
+
+    it('should still parse to the same tree', () => {
+      const ast = parseFormula('MAX(SQRT($alpha), MIN($beta, $gamma)) + 1');
+      const formula = formulaBuilder.buildFormula(ast, { lineWidth: 10 });
+      expect(isStructurallyEqual(parseFormula(formula), ast)).toBe(true);
+    });
+  });
+
+  it('should format for display with the stored options', () => {
+    formulaBuilder.setDisplayOptions({ operatorSpacing: false });
+    expect(formulaBuilder.formatForDisplay(parseFormula('1 + 2'))).toBe('1+2');
+    expect(formulaBuilder.buildFormula(parseFormula('1 + 2'))).toBe('1 + 2');
+  });
+});
@@ -1,4 +1,4 @@
-import { Injectable } from '@angular/core';
+import { Injectable, signal } from '@angular/core';
 import { 
   AstNode, 
   BinaryOperationNode, 
@@ -6,25 +6,24 @@ import {
   FunctionNode,
   NumberNode,
   VariableNode,
+  WildcardNode,
+  ReferenceNode,
+  StringNode,
   ConstantNode,
+  ErrorNode,
   isBinaryOperation,
   isUnaryOperation,
-  isFunction
+  isFunction,
+  mapChildNodes
 } from '../models/ast-node.model';
+import { AstVisitor, visitAst } from '../models/ast-visitor.model';
+import { needsParentheses } from '../models/precedence.model';
+import { DEFAULT_FORMATTER_OPTIONS, FormatterOptions } from '../models/formatter-options.model';
 
 @Injectable({
   providedIn: 'root'
 })
-export class FormulaBuilderService {
-
-  private readonly precedence: Record<string, number> = {
-    'ADDITION': 1,
-    'SUBTRACTION': 1,
-    'MULTIPLICATION': 2,
-    'DIVISION': 2,
-    'POWER': 3,
-    'NEGATION': 4
-  };
+export class FormulaBuilderService implements AstVisitor<string> {
 
   private readonly operators: Record<string, string> = {
     'ADDITION': '+',
@@ -34,112 +33,126 @@ export class FormulaBuilderService {
     'POWER': '^'
   };
 
-  buildFormula(ast: AstNode | null): string {
+  // Options of the current buildFormula call
+  private options = DEFAULT_FORMATTER_OPTIONS;
+
+  // How formulas are shown to the user; everything else uses the round-trip defaults
+  private readonly _displayOptions = signal<FormatterOptions>(DEFAULT_FORMATTER_OPTIONS);
+  public readonly displayOptions = this._displayOptions.asReadonly();
+
+  buildFormula(ast: AstNode | null, options: Partial<FormatterOptions> = {}): string {
     if (!ast) return '';
-    return this.visit(ast);
-  }
 
-  private visit(node: AstNode, parent?: AstNode): string {
-    if (isBinaryOperation(node)) {
-      return this.visitBinaryOperation(node, parent);
-    }
-    
-    if (isUnaryOperation(node)) {
-      return this.visitUnaryOperation(node, parent);
-    }
-    
-    if (isFunction(node)) {
-      return this.visitFunction(node);
+    const previous = this.options;
+    this.options = { ...DEFAULT_FORMATTER_OPTIONS, ...options };
+    try {
+      // Without the user's parentheses every grouping is decided by precedence alone
+      return this.visit(this.options.parentheses === 'minimal' ? this.stripParentheses(ast) : ast);
+    } finally {
+      this.options = previous;
     }
+  }
 
-    // Handle leaf nodes
-    switch (node.type) {
-      case 'NUMBER':
-        return this.visitNumber(node as NumberNode);
-      case 'VARIABLE':
-        return this.visitVariable(node as VariableNode);
-      case 'PI':
-      case 'E':
-        return this.visitConstant(node as ConstantNode);
-      default:
-        return '?'; // Unknown node type
-    }
+  // Formats with the user's display options
+  formatForDisplay(ast: AstNode | null): string {
+    return this.buildFormula(ast, this._displayOptions());
   }
 
-  private visitBinaryOperation(node: BinaryOperationNode, parent?: AstNode): string {
+  setDisplayOptions(options: Partial<FormatterOptions>): void {
+    this._displayOptions.update(current => ({ ...current, ...options }));
+  }
+
+  private visit(node: AstNode, parent?: AstNode): string {
+    return visitAst(this, node, parent);
+  }
+
+  visitBinaryOperation(node: BinaryOperationNode, parent?: AstNode): string {
     const operator = this.operators[node.type] || '?';
     const leftExpr = this.visit(node.left, node);
     const rightExpr = this.visit(node.right, node);
     
-    const expression = `${leftExpr} ${operator} ${rightExpr}`;
+    const expression = this.options.operatorSpacing
+      ? `${leftExpr} ${operator} ${rightExpr}`
+      : `${leftExpr}${operator}${rightExpr}`;
     
     // Add parentheses if needed based on precedence
-    if (parent && this.needsParentheses(parent, node)) {
+    if (parent && needsParentheses(parent, node)) {
       return `(${expression})`;
     }
     
     return expression;
   }
 
-  private visitUnaryOperation(node: UnaryOperationNode, parent?: AstNode): string {
+  visitUnaryOperation(node: UnaryOperationNode, parent?: AstNode): string {
     const expr = this.visit(node.expression, node);
     
     if (node.type === 'PAREN') {
       return `(${expr})`;
     }
     
-    // Check if inner expression needs parentheses
-    if (node.expression && isBinaryOperation(node.expression)) {
-      return `-(${expr})`;
+    // A binary operand was already parenthesized for binding weaker than negation;
+    // the negation itself needs them as the base of a power: (-x) ^ 2
+    if (parent && needsParentheses(parent, node)) {
+      return `(-${expr})`;
     }
-    
+
     return `-${expr}`;
   }
 
-  private visitFunction(node: FunctionNode): string {
-    const args = node.arguments
-      .map(arg => this.visit(arg))
-      .join(', ');
-    
-    return `${node.name}(${args})`;
+  visitFunction(node: FunctionNode): string {
+    const { argumentSeparator, lineWidth, indent } = this.options;
+    const args = node.arguments.map(arg => this.visit(arg));
+    const call = `${node.name}(${args.join(argumentSeparator)})`;
+
+    // Long calls (or calls around an already broken one) get one argument per line
+    if (lineWidth > 0 && args.length > 0 && (call.length > lineWidth || call.includes('\n'))) {
+      const lines = args.map(arg => indent + arg.replace(/\n/g, `\n${indent}`));
+      return `${node.name}(\n${lines.join(`${argumentSeparator.trimEnd()}\n`)}\n)`;
+    }
+
+    return call;
   }
 
-  private visitNumber(node: NumberNode): string {
-    // Handle integers vs decimals
-    return Number.isInteger(node.value) 
-      ? node.value.toString() 
-      : node.value.toFixed(2);
+  visitNumber(node: NumberNode, parent?: AstNode): string {
+    const { numberFormat, significantDigits, locale } = this.options;
+    const value = numberFormat === 'significant'
+      ? Number(node.value.toPrecision(significantDigits))
+      : node.value;
+
+    // String() gives the shortest text that parses back to the same number
+    const text = locale ? String(value).replace('.', this.decimalSeparator(locale)) : String(value);
+    // A negative number as the base of a power keeps its sign inside: (-3) ^ 2
+    return parent && needsParentheses(parent, node) ? `(${text})` : text;
   }
 
-  private visitVariable(node: VariableNode): string {
+  visitVariable(node: VariableNode): string {
     return node.name.startsWith('$') ? node.name : `$${node.name}`;
   }
 
-  private visitConstant(node: ConstantNode): string {
+  visitString(node: StringNode): string {
+    // Quotes inside a string are escaped by doubling them
+    return `'${node.value.replace(/'/g, "''")}'`;
+  }
+
+  visitConstant(node: ConstantNode): string {
     return node.type;
   }
 
-  private needsParentheses(parent: AstNode, child: AstNode): boolean {
-    const parentPrecedence = this.precedence[parent.type];
-    const childPrecedence = this.precedence[child.type];
-    
-    if (parentPrecedence === undefined || childPrecedence === undefined) {
-      return false;
-    }
-    
-    if (childPrecedence < parentPrecedence) {
-      return true;
-    }
-    
-    if (childPrecedence === parentPrecedence) {
-      // For subtraction and division, right operand needs parentheses
-      if ((parent.type === 'SUBTRACTION' || parent.type === 'DIVISION') &&
-          isBinaryOperation(parent) && parent.right === child) {
-        return true;
-      }
-    }
-    
-    return false;
+  visitReference(node: ReferenceNode): string {
+    return `@${node.name}`;
+  }
+
+  visitWildcard(node: WildcardNode): string {
+    return `?${node.name}${node.kind ? `:${node.kind}` : ''}`;
+  }
+
+  visitPlaceholder(): string {
+    return '?';
+  }
+
+  visitError(node: ErrorNode): string {
+    // Keep the unparseable source as typed; a missing operand has no text
+    return node.text || '?';
   }
 
   getNodeDescription(node: AstNode): string {
@@ -160,12 +173,34 @@ export class FormulaBuilderService {
         return `number: ${(node as NumberNode).value}`;
       case 'VARIABLE':
         return `variable: ${(node as VariableNode).name}`;
+      case 'STRING':
+        return `string: '${(node as StringNode).value}'`;
       case 'PI':
         return 'constant: π';
       case 'E':
         return 'constant: e';
+      case 'REFERENCE':
+        return `reference: @${(node as ReferenceNode).name}`;
+      case 'WILDCARD':
+        return `wildcard: ${this.visitWildcard(node as WildcardNode)}`;
+      case 'ERROR':
+        return `syntax error: ${(node as ErrorNode).message}`;
+      case 'PLACEHOLDER':
+        return 'empty slot';
       default:
         return 'unknown node';
     }
   }
-}
\ No newline at end of file
+
+  private stripParentheses(node: AstNode): AstNode {
+    if (node.type === 'PAREN') {
+      return this.stripParentheses(node.expression);
+    }
+    return mapChildNodes(node, child => this.stripParentheses(child));
+  }
+
+  private decimalSeparator(locale: string): string {
+    const parts = new Intl.NumberFormat(locale).formatToParts(1.5);
+    return parts.find(part => part.type === 'decimal')?.value ?? '.';
+  }
+}
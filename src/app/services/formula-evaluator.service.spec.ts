@@ -0,0 +1,71 @@
+import { TestBed } from '@angular/core/testing';
+import { AstNode } from '../models/ast-node.model';
+import { provideMemoryStorage } from '../testing/workspace-storage';
+import { FormulaEvaluatorService } from './formula-evaluator.service';
+import { AstManipulatorService } from './ast-manipulator.service';
+import { FunctionRegistryService } from './function-registry.service';
+
+describe('FormulaEvaluatorService', () => {
+  let evaluator: FormulaEvaluatorService;
+
+  const num = (value: number): AstNode => ({ type: 'NUMBER', value });
+  const param = (name: string): AstNode => ({ type: 'VARIABLE', name });
+  const fn = (name: string, ...args: AstNode[]): AstNode => ({ type: 'FUNCTION', name, arguments: args });
+
+  beforeEach(() => {
+    TestBed.configureTestingModule({ providers: [provideMemoryStorage()] });
+    evaluator = TestBed.inject(FormulaEvaluatorService);
+  });
+
+  it('should evaluate arithmetic with parameter bindings', () => {
+    // PI * SQR($r)
+    const ast: AstNode = { type: 'MULTIPLICATION', left: { type: 'PI' }, right: fn('SQR', param('$r')) };
+    expect(evaluator.evaluate(ast, { r: 2 })).toBeCloseTo(4 * Math.PI);
+  });
+
+  it('should support variadic functions', () => {
+    expect(evaluator.evaluate(fn('MAX', num(3), num(7), num(5)))).toBe(7);
+  });
+
+  it.each([
+    ['UNBOUND_PARAMETER', param('$x')],
+    ['UNKNOWN_FUNCTION', fn('FOO', num(1))],
+    ['WRONG_ARITY', fn('SQRT', num(1), num(2))],
+    ['DOMAIN_ERROR', fn('SQRT', num(-1))],
+    ['DOMAIN_ERROR', fn('TAN', { type: 'DIVISION', left: { type: 'PI' }, right: num(2) })],
+    ['DOMAIN_ERROR', { type: 'DIVISION', left: num(1), right: num(0) } as AstNode],
+    ['INCOMPLETE_FORMULA', { type: 'ADDITION', left: num(1), right: { type: 'PLACEHOLDER' } } as AstNode]
+  ])('should report %s as a structured error', (code, ast) => {
+    const result = evaluator.tryEvaluate(ast);
+    expect(result.ok).toBe(false);
+    expect(result.ok === false && result.error.code).toBe(code);
+  });
+
+  it('should pass string literals to parameters declared as strings only', () => {
+    TestBed.inject(FunctionRegistryService).register({
+      name: 'LEN',
+      minArity: 1,
+      maxArity: 1,
+      parameterTypes: ['string'],
+      returnType: 'number',
+      description: 'Length of a string',
+      implementation: ([text]) => (text as string).length
+    });
+    const text: AstNode = { type: 'STRING', value: 'abc' };
+
+    expect(evaluator.evaluate(fn('LEN', text))).toBe(3);
+    expect(evaluator.tryEvaluate(fn('LEN', num(3)))).toMatchObject({ ok: false, error: { code: 'TYPE_ERROR' } });
+    expect(evaluator.tryEvaluate(fn('SQRT', text))).toMatchObject({ ok: false, error: { code: 'TYPE_ERROR' } });
+  });
+
+  it('should recompute the result when the AST or bindings change', () => {
+    const astService = TestBed.inject(AstManipulatorService);
+    astService.setAst({ type: 'ADDITION', left: param('$a'), right: num(1) });
+
+    expect(evaluator.parameters()).toEqual(['a']);
+    expect(evaluator.result()?.ok).toBe(false);
+
+    evaluator.setBinding('a', 41);
+    expect(evaluator.result()).toEqual({ ok: true, value: 42 });
+  });
+});
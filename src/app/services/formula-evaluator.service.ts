@@ -0,0 +1,230 @@
+import { Injectable, computed, inject, signal } from '@angular/core';
+import {
+  AstNode,
+  BinaryOperationNode,
+  ErrorNode,
+  FunctionNode,
+  NumberNode,
+  StringNode,
+  VariableNode,
+  isBinaryOperation,
+  isUnaryOperation,
+  isFunction
+} from '../models/ast-node.model';
+import {
+  EvaluationError,
+  EvaluationResult,
+  ParameterBindings,
+  isEvaluationError
+} from '../models/evaluation.model';
+import { ArgumentValue, FunctionDefinition, describeArity, parameterTypeAt } from '../models/function-definition.model';
+import { AstManipulatorService } from './ast-manipulator.service';
+import { FormulaReferenceService } from './formula-reference.service';
+import { FunctionRegistryService } from './function-registry.service';
+
+@Injectable({
+  providedIn: 'root'
+})
+export class FormulaEvaluatorService {
+  private readonly astService = inject(AstManipulatorService);
+  private readonly registry = inject(FunctionRegistryService);
+  private readonly references = inject(FormulaReferenceService);
+
+  private readonly _bindings = signal<ParameterBindings>({});
+
+  public readonly bindings = this._bindings.asReadonly();
+
+  // Distinct parameter names of the current AST and the formulas it references, in order of appearance
+  public readonly parameters = computed(() => {
+    const astValue = this.astService.ast();
+    if (!astValue) return [];
+
+    const expanded = this.references.tryExpand(astValue);
+    return this.collectParameters(expanded.ok ? expanded.ast : astValue, []);
+  });
+
+  public readonly result = computed<EvaluationResult | null>(() => {
+    const astValue = this.astService.ast();
+    return astValue ? this.tryEvaluate(astValue, this._bindings()) : null;
+  });
+
+  setBinding(name: string, value: number | null): void {
+    this._bindings.update(bindings => {
+      const updated = { ...bindings };
+      if (value === null || Number.isNaN(value)) {
+        delete updated[name];
+      } else {
+        updated[name] = value;
+      }
+      return updated;
+    });
+  }
+
+  setBindings(bindings: ParameterBindings): void {
+    this._bindings.set({ ...bindings });
+  }
+
+  clearBindings(): void {
+    this._bindings.set({});
+  }
+
+  // References are expanded first; the named formulas share the bindings
+  evaluate(ast: AstNode, bindings: ParameterBindings = {}): number {
+    return this.visit(this.references.expand(ast), bindings);
+  }
+
+  tryEvaluate(ast: AstNode, bindings: ParameterBindings = {}): EvaluationResult {
+    try {
+      return { ok: true, value: this.evaluate(ast, bindings) };
+    } catch (error) {
+      if (isEvaluationError(error)) {
+        return { ok: false, error };
+      }
+      throw error;
+    }
+  }
+
+  private visit(node: AstNode, bindings: ParameterBindings): number {
+    if (isBinaryOperation(node)) {
+      return this.visitBinaryOperation(node, bindings);
+    }
+
+    if (isUnaryOperation(node)) {
+      const value = this.visit(node.expression, bindings);
+      return node.type === 'NEGATION' ? -value : value;
+    }
+
+    if (isFunction(node)) {
+      return this.visitFunction(node, bindings);
+    }
+
+    switch (node.type) {
+      case 'NUMBER':
+        return (node as NumberNode).value;
+      case 'VARIABLE':
+        return this.visitVariable(node as VariableNode, bindings);
+      case 'PI':
+        return Math.PI;
+      case 'E':
+        return Math.E;
+      case 'STRING':
+        throw new EvaluationError(
+          'TYPE_ERROR',
+          'String literals cannot be used in numeric expressions',
+          node.id
+        );
+      case 'ERROR':
+        throw new EvaluationError('SYNTAX_ERROR', (node as ErrorNode).message, node.id);
+      case 'PLACEHOLDER':
+        throw new EvaluationError('INCOMPLETE_FORMULA', 'Fill in every empty slot (?) before evaluating', node.id);
+      default:
+        throw new EvaluationError(
+          'UNSUPPORTED_NODE',
+          `Cannot evaluate node of type ${(node as AstNode).type}`,
+          (node as AstNode).id
+        );
+    }
+  }
+
+  private visitBinaryOperation(node: BinaryOperationNode, bindings: ParameterBindings): number {
+    const left = this.visit(node.left, bindings);
+    const right = this.visit(node.right, bindings);
+
+    switch (node.type) {
+      case 'ADDITION':
+        return left + right;
+      case 'SUBTRACTION':
+        return left - right;
+      case 'MULTIPLICATION':
+        return left * right;
+      case 'DIVISION':
+        if (right === 0) {
+          throw new EvaluationError('DOMAIN_ERROR', 'Division by zero', node.id);
+        }
+        return left / right;
+      case 'POWER': {
+        const value = left ** right;
+        if (Number.isNaN(value) || (left === 0 && right < 0)) {
+          throw new EvaluationError(
+            'DOMAIN_ERROR',
+            `${left} cannot be raised to the power of ${right}`,
+            node.id
+          );
+        }
+        return value;
+      }
+    }
+  }
+
+  private visitFunction(node: FunctionNode, bindings: ParameterBindings): number {
+    const fn = this.registry.get(node.name);
+
+    if (!fn) {
+      throw new EvaluationError('UNKNOWN_FUNCTION', `Unknown function ${node.name}`, node.id);
+    }
+
+    const argCount = node.arguments.length;
+    if (argCount < fn.minArity || argCount > fn.maxArity) {
+      throw new EvaluationError(
+        'WRONG_ARITY',
+        `${fn.name} expects ${describeArity(fn)} but got ${argCount}`,
+        node.id
+      );
+    }
+
+    const args = node.arguments.map((arg, index) => this.visitArgument(fn, index, arg, bindings));
+    if (fn.isDefined && !fn.isDefined(args)) {
+      throw new EvaluationError(
+        'DOMAIN_ERROR',
+        `${fn.name} is not defined for ${args.join(', ')}`,
+        node.id
+      );
+    }
+
+    return fn.implementation(args);
+  }
+
+  // String literals may only fill parameters declared as 'string', and nothing else may
+  private visitArgument(fn: FunctionDefinition, index: number, arg: AstNode, bindings: ParameterBindings): ArgumentValue {
+    if (parameterTypeAt(fn, index) !== 'string') {
+      return this.visit(arg, bindings);
+    }
+    if (arg.type !== 'STRING') {
+      throw new EvaluationError('TYPE_ERROR', `${fn.name} expects a string as argument ${index + 1}`, arg.id);
+    }
+    return (arg as StringNode).value;
+  }
+
+  private visitVariable(node: VariableNode, bindings: ParameterBindings): number {
+    const name = this.parameterName(node);
+    const value = bindings[name];
+
+    if (value === undefined) {
+      throw new EvaluationError('UNBOUND_PARAMETER', `No value bound to $${name}`, node.id);
+    }
+
+    return value;
+  }
+
+  private parameterName(node: VariableNode): string {
+    return node.name.startsWith('$') ? node.name.slice(1) : node.name;
+  }
+
+  private collectParameters(node: AstNode, names: string[]): string[] {
+    if (node.type === 'VARIABLE') {
+      const name = this.parameterName(node as VariableNode);
+      if (!names.includes(name)) {
+        names.push(name);
+      }
+    } else if (isBinaryOperation(node)) {
+      this.collectParameters(node.left, names);
+      this.collectParameters(node.right, names);
+    } else if (isUnaryOperation(node)) {
+      this.collectParameters(node.expression, names);
+    } else if (isFunction(node)) {
+      node.arguments.forEach(arg => this.collectParameters(arg, names));
+    }
+
+    return names;
+  }
+}
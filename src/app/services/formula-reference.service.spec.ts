@@ -0,0 +1,143 @@
+import { TestBed } from '@angular/core/testing';
+import { parseFormula } from '../parser/formula-parser';
+import { provideMemoryStorage } from '../testing/workspace-storage';
+import { AstManipulatorService } from './ast-manipulator.service';
+import { FormulaBuilderService } from './formula-builder.service';
+import { FormulaEvaluatorService } from './formula-evaluator.service';
+import { FormulaReferenceService } from './formula-reference.service';
+import { FormulaValidatorService } from './formula-validator.service';
+import { WorkspaceService } from './workspace.service';
+
+describe('FormulaReferenceService', () => {
+  let references: FormulaReferenceService;
+  let workspace: WorkspaceService;
+  let formulaBuilder: FormulaBuilderService;
+
+  const save = (formulas: Record<string, string>) => {
+    workspace.library().forEach(saved => workspace.deleteFormula(saved.name));
+    Object.entries(formulas).forEach(([name, formula]) => workspace.saveFormula(name, formula));
+  };
+
+  const expand = (formula: string) => formulaBuilder.buildFormula(references.expand(parseFormula(formula)));
+
+  beforeEach(() => {
+    TestBed.configureTestingModule({ providers: [provideMemoryStorage()] });
+
+    references = TestBed.inject(FormulaReferenceService);
+    workspace = TestBed.inject(WorkspaceService);
+    formulaBuilder = TestBed.inject(FormulaBuilderService);
+  });
+
+  describe('dependency graph', () => {
+    it('should link references and dependents', () => {
+      save({ revenue: '$price * $units', cost: '$units * 2', margin: '@revenue - @cost', ratio: '@margin / @revenue' });
+
+      const graph = references.graph();
+      expect(graph.entries.get('margin')).toMatchObject({ references: ['revenue', 'cost'], dependents: ['ratio'] });
+      expect(graph.entries.get('revenue')?.dependents).toEqual(['margin', 'ratio']);
+      expect(graph.cycles).toEqual([]);
+    });
+
+    it('should report references to formulas that do not exist', () => {
+      save({ total: '@net + @tax', net: '1' });
+
+      expect(references.entry('total')?.missing).toEqual(['tax']);
+    });
+
+    it('should find cycles, including a formula that refers to itself', () => {
+      save({ a: '@b + 1', b: '@c * 2', c: '@a', d: '@d', e: '@a' });
+
+      const cycles = references.cycles().map(cycle => [...cycle].sort());
+      expect(cycles).toEqual([['a', 'b', 'c'], ['d']]);
+      expect(references.entry('e')?.cycle).toBeNull();
+      expect(references.entry('b')?.cycle).toHaveLength(3);
+    });
+
+    it('should keep formulas that do not parse, without references', () => {
+      save({ broken: '1 +' });
+
+      expect(references.entry('broken')).toMatchObject({ ast: null, references: [], parseError: 'Unexpected end of formula' });
+    });
+
+    it('should follow changes to the library', () => {
+      save({ a: '@b' });
+      expect(references.entry('a')?.missing).toEqual(['b']);
+
+      workspace.saveFormula('b', '2');
+      expect(references.entry('a')?.missing).toEqual([]);
+    });
+  });
+
+  describe('expand', () => {
+    it('should replace references recursively, keeping the grouping', () => {
+      save({ revenue: '$price * $units', cost: '$units + 2', margin: '@revenue - @cost' });
+
+      expect(expand('@margin / @revenue')).toBe('($price * $units - ($units + 2)) / ($price * $units)');
+    });
+
+    it('should return a tree without references unchanged', () => {
+      const ast = parseFormula('1 + $a');
+      expect(references.expand(ast)).toBe(ast);
+    });
+
+    it('should name the path of a circular reference and blame the reference in the tree', () => {
+      save({ a: '@b + 1', b: '@a' });
+      const ast = { ...parseFormula('@a'), id: 'ref' };
+
+      const result = references.tryExpand(ast);
+      expect(result.ok).toBe(false);
+      if (result.ok === false) {
+        expect(result.error.code).toBe('CIRCULAR_REFERENCE');
+        expect(result.error.message).toBe('Circular reference: @a → @b → @a');
+        expect(result.error.nodeId).toBe('ref');
+      }
+    });
+
+    it('should report unknown and unparsable formulas', () => {
+      save({ broken: '1 +' });
+
+      expect(() => references.expand(parseFormula('@nothing'))).toThrow('No formula named @nothing');
+      expect(() => references.expand(parseFormula('@broken'))).toThrow(/@broken cannot be parsed/);
+    });
+  });
+
+  describe('with the rest of the workspace', () => {
+    it('should evaluate with references expanded and offer their parameters', () => {
+      const astService = TestBed.inject(AstManipulatorService);
+      const evaluator = TestBed.inject(FormulaEvaluatorService);
+      save({ revenue: '$price * $units', margin: '@revenue - $cost' });
+
+      astService.setAst(parseFormula('@margin / @revenue'));
+      evaluator.setBindings({ price: 5, units: 10, cost: 20 });
+
+      expect(evaluator.parameters()).toEqual(['price', 'units', 'cost']);
+      expect(evaluator.result()).toEqual({ ok: true, value: 0.6 });
+    });
+
+    it('should inline a single reference into the tree', () => {
+      const astService = TestBed.inject(AstManipulatorService);
+      save({ area: 'PI * SQR($r)', double: '2 * @area' });
+      astService.setAst(parseFormula('@double + 1'));
+      const reference = astService.ast();
+      const id = reference?.type === 'ADDITION' ? reference.left.id : '';
+
+      astService.inlineReference(id ?? '');
+
+      expect(formulaBuilder.buildFormula(astService.ast())).toBe('2 * @area + 1');
+      expect(astService.history().at(-1)?.description).toBe('Inlined @double');
+    });
+
+    it('should flag unknown and circular references on their nodes', () => {
+      const astService = TestBed.inject(AstManipulatorService);
+      const validator = TestBed.inject(FormulaValidatorService);
+      save({ a: '@a' });
+
+      astService.setAst(parseFormula('@a + @b'));
+
+      expect(validator.issues().map(issue => [issue.code, issue.message])).toEqual([
+        ['CIRCULAR_REFERENCE', '@a is part of a cycle: @a → @a'],
+        ['UNKNOWN_REFERENCE', 'No formula named @b']
+      ]);
+    });
+  });
+});
@@ -0,0 +1,170 @@
+import { Injectable, computed, inject } from '@angular/core';
+import { AstNode, mapChildNodes } from '../models/ast-node.model';
+import { EvaluationError, isEvaluationError } from '../models/evaluation.model';
+import {
+  DependencyEntry,
+  DependencyGraph,
+  ExpansionResult,
+  collectReferences
+} from '../models/formula-reference.model';
+import { SavedFormula } from '../models/workspace.model';
+import { parseFormula } from '../parser/formula-parser';
+import { WorkspaceService } from './workspace.service';
+
+/**
+ * Resolves @name references against the named formulas of the workspace
+ * library. Keeps the dependency graph between them, finds reference cycles,
+ * and expands references so a formula can be evaluated or inlined.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class FormulaReferenceService {
+  private readonly workspace = inject(WorkspaceService);
+
+  // Rebuilt whenever the library changes
+  public readonly graph = computed(() => this.buildGraph(this.workspace.library()));
+
+  public readonly cycles = computed(() => this.graph().cycles);
+
+  entry(name: string): DependencyEntry | null {
+    return this.graph().entries.get(name) ?? null;
+  }
+
+  // The tree of the named formula, ready to be placed into another tree
+  resolve(name: string): AstNode | null {
+    return this.entry(name)?.ast ?? null;
+  }
+
+  // Replaces every reference by the formula it names, all the way down.
+  // Errors carry the id of the reference in `ast` that led to them.
+  expand(ast: AstNode): AstNode {
+    return collectReferences(ast).length > 0 ? this.expandNode(ast, [], undefined) : ast;
+  }
+
+  tryExpand(ast: AstNode): ExpansionResult {
+    try {
+      return { ok: true, ast: this.expand(ast) };
+    } catch (error) {
+      if (isEvaluationError(error)) {
+        return { ok: false, error };
+      }
+      throw error;
+    }
+  }
+
+  private expandNode(node: AstNode, path: string[], sourceId: string | undefined): AstNode {
+    if (node.type === 'REFERENCE') {
+      const id = sourceId ?? node.id;
+      const trail = [...path, node.name];
+
+      if (path.includes(node.name)) {
+        const names = trail.map(name => `@${name}`).join(' → ');
+        throw new EvaluationError('CIRCULAR_REFERENCE', `Circular reference: ${names}`, id);
+      }
+
+      const entry = this.entry(node.name);
+      if (!entry) {
+        throw new EvaluationError('UNKNOWN_REFERENCE', `No formula named @${node.name}`, id);
+      }
+      if (!entry.ast) {
+        throw new EvaluationError('SYNTAX_ERROR', `@${node.name} cannot be parsed: ${entry.parseError}`, id);
+      }
+
+      return this.expandNode(entry.ast, trail, id);
+    }
+
+    return mapChildNodes(node, child => this.expandNode(child, path, sourceId));
+  }
+
+  private buildGraph(library: SavedFormula[]): DependencyGraph {
+    const entries = new Map<string, DependencyEntry>();
+
+    library.forEach(saved => {
+      let ast: AstNode | null = null;
+      let parseError: string | null = null;
+      try {
+        ast = this.withoutSpans(parseFormula(saved.formula));
+      } catch (error) {
+        parseError = error instanceof Error ? error.message : String(error);
+      }
+
+      entries.set(saved.name, {
+        name: saved.name,
+        formula: saved.formula,
+        ast,
+        parseError,
+        references: ast ? collectReferences(ast) : [],
+        dependents: [],
+        missing: [],
+        cycle: null
+      });
+    });
+
+    entries.forEach(entry => entry.references.forEach(name => {
+      const target = entries.get(name);
+      if (target) {
+        target.dependents.push(entry.name);
+      } else {
+        entry.missing.push(name);
+      }
+    }));
+
+    const cycles = this.findCycles(entries);
+    cycles.forEach(cycle => cycle.forEach(name => {
+      const entry = entries.get(name);
+      if (entry) {
+        entry.cycle = cycle;
+      }
+    }));
+
+    return { entries, cycles };
+  }
+
+  // Tarjan's algorithm: a strongly connected component with more than one
+  // formula, or a formula referring to itself, is a cycle
+  private findCycles(entries: Map<string, DependencyEntry>): string[][] {
+    const index = new Map<string, number>();
+    const lowLink = new Map<string, number>();
+    const stack: string[] = [];
+    const cycles: string[][] = [];
+
+    const connect = (name: string): void => {
+      index.set(name, index.size);
+      lowLink.set(name, index.get(name) ?? 0);
+      stack.push(name);
+
+      const references = entries.get(name)?.references ?? [];
+      references.filter(next => entries.has(next)).forEach(next => {
+        if (!index.has(next)) {
+          connect(next);
+          lowLink.set(name, Math.min(lowLink.get(name) ?? 0, lowLink.get(next) ?? 0));
+        } else if (stack.includes(next)) {
+          lowLink.set(name, Math.min(lowLink.get(name) ?? 0, index.get(next) ?? 0));
+        }
+      });
+
+      if (lowLink.get(name) === index.get(name)) {
+        const component = stack.splice(stack.lastIndexOf(name));
+        if (component.length > 1 || references.includes(name)) {
+          cycles.push(component);
+        }
+      }
+    };
+
+    entries.forEach((_, name) => {
+      if (!index.has(name)) {
+        connect(name);
+      }
+    });
+
+    return cycles;
+  }
+
+  // Spans point into the named formula's own text, which means nothing in another tree
+  private withoutSpans(node: AstNode): AstNode {
+    const copy = mapChildNodes(node, child => this.withoutSpans(child));
+    delete copy.span;
+    return copy;
+  }
+}
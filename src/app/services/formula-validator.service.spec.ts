@@ -0,0 +1,46 @@
+import { TestBed } from '@angular/core/testing';
+import { parseFormula } from '../parser/formula-parser';
+import { provideMemoryStorage } from '../testing/workspace-storage';
+import { AstManipulatorService } from './ast-manipulator.service';
+import { FormulaValidatorService } from './formula-validator.service';
+
+describe('FormulaValidatorService', () => {
+  let validator: FormulaValidatorService;
+  let astService: AstManipulatorService;
+
+  beforeEach(() => {
+    TestBed.configureTestingModule({ providers: [provideMemoryStorage()] });
+    validator = TestBed.inject(FormulaValidatorService);
+    astService = TestBed.inject(AstManipulatorService);
+  });
+
+  it('should accept calls that match the registry', () => {
+    expect(validator.validate(parseFormula('SQRT($x) + ROUND(1.5, 1) + MAX(1, 2, 3)'))).toEqual([]);
+  });
+
+  it('should flag unknown functions and arity errors on their nodes', () => {
+    astService.setAst(parseFormula('FOO(1) + SQR(1, 2)'));
+
+    const issues = validator.issues();
+    expect(issues.map(issue => issue.code)).toEqual(['UNKNOWN_FUNCTION', 'WRONG_ARITY']);
+    expect(issues[1].message).toBe('SQR expects 1 argument(s) but got 2');
+    expect(validator.issuesFor(issues[0].nodeId)).toEqual([issues[0]]);
+  });
+
+  it('should flag every empty slot until it is filled', () => {
+    astService.setAst(parseFormula('SQR(?) + ? * 2'));
+
+    expect(validator.issues().map(issue => issue.code)).toEqual(['EMPTY_SLOT', 'EMPTY_SLOT']);
+    expect(validator.isValid()).toBe(false);
+
+    const slotIds = validator.issues().map(issue => issue.nodeId);
+    slotIds.forEach(nodeId => astService.replaceNode(nodeId, { type: 'NUMBER', value: 1 }));
+    expect(validator.isValid()).toBe(true);
+  });
+
+  it('should check nested calls', () => {
+    expect(validator.validate(parseFormula('SQRT(MIN())'))).toEqual([
+      expect.objectContaining({ code: 'WRONG_ARITY' })
+    ]);
+  });
+});
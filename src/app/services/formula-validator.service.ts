@@ -0,0 +1,96 @@
+import { Injectable, computed, inject } from '@angular/core';
+import {
+  AstNode,
+  FunctionNode,
+  ReferenceNode,
+  isBinaryOperation,
+  isFunction,
+  isUnaryOperation
+} from '../models/ast-node.model';
+import { describeArity } from '../models/function-definition.model';
+import { ValidationIssue } from '../models/validation.model';
+import { AstManipulatorService } from './ast-manipulator.service';
+import { FormulaReferenceService } from './formula-reference.service';
+import { FunctionRegistryService } from './function-registry.service';
+import { TypeCheckerService } from './type-checker.service';
+
+@Injectable({
+  providedIn: 'root'
+})
+export class FormulaValidatorService {
+  private readonly astService = inject(AstManipulatorService);
+  private readonly registry = inject(FunctionRegistryService);
+  private readonly typeChecker = inject(TypeCheckerService);
+  private readonly references = inject(FormulaReferenceService);
+
+  // Issues of the current AST, recomputed on every edit and registry change
+  public readonly issues = computed(() => {
+    const astValue = this.astService.ast();
+    return astValue ? [...this.validate(astValue), ...this.typeChecker.result().issues] : [];
+  });
+
+  public readonly isValid = computed(() => this.issues().length === 0);
+
+  public readonly issuesByNode = computed(() => {
+    const byNode = new Map<string, ValidationIssue[]>();
+    this.issues().forEach(issue => {
+      byNode.set(issue.nodeId, [...(byNode.get(issue.nodeId) ?? []), issue]);
+    });
+    return byNode;
+  });
+
+  issuesFor(nodeId: string): ValidationIssue[] {
+    return this.issuesByNode().get(nodeId) ?? [];
+  }
+
+  validate(ast: AstNode): ValidationIssue[] {
+    return this.visit(ast, []);
+  }
+
+  private visit(node: AstNode, issues: ValidationIssue[]): ValidationIssue[] {
+    if (isBinaryOperation(node)) {
+      this.visit(node.left, issues);
+      this.visit(node.right, issues);
+    } else if (isUnaryOperation(node)) {
+      this.visit(node.expression, issues);
+    } else if (isFunction(node)) {
+      this.visitFunction(node, issues);
+      node.arguments.forEach(arg => this.visit(arg, issues));
+    } else if (node.type === 'REFERENCE') {
+      this.visitReference(node, issues);
+    } else if (node.type === 'PLACEHOLDER') {
+      issues.push({ nodeId: node.id, code: 'EMPTY_SLOT', message: 'Empty slot: fill it before evaluating' });
+    }
+
+    return issues;
+  }
+
+  private visitReference(node: ReferenceNode, issues: ValidationIssue[]): void {
+    const entry = this.references.entry(node.name);
+
+    if (!entry) {
+      issues.push({ nodeId: node.id, code: 'UNKNOWN_REFERENCE', message: `No formula named @${node.name}` });
+    } else if (entry.cycle) {
+      const names = [...entry.cycle, entry.cycle[0]].map(name => `@${name}`).join(' → ');
+      issues.push({ nodeId: node.id, code: 'CIRCULAR_REFERENCE', message: `@${node.name} is part of a cycle: ${names}` });
+    }
+  }
+
+  private visitFunction(node: FunctionNode, issues: ValidationIssue[]): void {
+    const fn = this.registry.get(node.name);
+
+    if (!fn) {
+      issues.push({ nodeId: node.id, code: 'UNKNOWN_FUNCTION', message: `Unknown function ${node.name}` });
+      return;
+    }
+
+    const argCount = node.arguments.length;
+    if (argCount < fn.minArity || argCount > fn.maxArity) {
+      issues.push({
+        nodeId: node.id,
+        code: 'WRONG_ARITY',
+        message: `${fn.name} expects ${describeArity(fn)} but got ${argCount}`
+      });
+    }
+  }
+}
@@ -0,0 +1,46 @@
+import { TestBed } from '@angular/core/testing';
+import { AstNode } from '../models/ast-node.model';
+import { FunctionDefinition, provideFormulaFunctions } from '../models/function-definition.model';
+import { provideMemoryStorage } from '../testing/workspace-storage';
+import { FormulaEvaluatorService } from './formula-evaluator.service';
+import { FunctionRegistryService } from './function-registry.service';
+
+describe('FunctionRegistryService', () => {
+  const margin: FunctionDefinition = {
+    name: 'MARGIN',
+    minArity: 2,
+    maxArity: 2,
+    parameterTypes: ['number', 'number'],
+    returnType: 'number',
+    description: 'Profit as a share of revenue',
+    implementation: ([profit, revenue]) => (profit as number) / (revenue as number)
+  };
+
+  it('should register the built-in functions', () => {
+    const registry = TestBed.inject(FunctionRegistryService);
+
+    expect(registry.names()).toEqual(expect.arrayContaining(['SQR', 'SQRT', 'ROUND', 'MAX']));
+    expect(registry.get('sqrt')).toMatchObject({ name: 'SQRT', minArity: 1, maxArity: 1 });
+  });
+
+  it('should add functions provided through FORMULA_FUNCTIONS', () => {
+    TestBed.configureTestingModule({ providers: [provideFormulaFunctions(margin), provideMemoryStorage()] });
+    const evaluator = TestBed.inject(FormulaEvaluatorService);
+    const ast: AstNode = {
+      type: 'FUNCTION',
+      name: 'margin',
+      arguments: [{ type: 'NUMBER', value: 25 }, { type: 'NUMBER', value: 100 }]
+    };
+
+    expect(TestBed.inject(FunctionRegistryService).has('MARGIN')).toBe(true);
+    expect(evaluator.evaluate(ast)).toBe(0.25);
+  });
+
+  it('should let a later registration replace a function of the same name', () => {
+    const registry = TestBed.inject(FunctionRegistryService);
+    registry.register({ ...margin, name: 'Sqr', description: 'Custom square' });
+
+    expect(registry.get('SQR').description).toBe('Custom square');
+    expect(registry.names().filter(name => name.toUpperCase() === 'SQR').length).toBe(1);
+  });
+});
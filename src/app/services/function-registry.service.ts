@@ -0,0 +1,100 @@
+import { Injectable, computed, inject, signal } from '@angular/core';
+import { ArgumentValue, FORMULA_FUNCTIONS, FunctionDefinition } from '../models/function-definition.model';
+
+// Every built-in takes numbers only, so the evaluator passes it no strings
+const numbers = (args: ArgumentValue[]): number[] => args as number[];
+
+const unary = (
+  name: string,
+  description: string,
+  implementation: (x: number) => number,
+  isDefined?: (x: number) => boolean
+): FunctionDefinition => ({
+  name,
+  minArity: 1,
+  maxArity: 1,
+  parameterTypes: ['number'],
+  returnType: 'number',
+  description,
+  implementation: args => implementation(numbers(args)[0]),
+  isDefined: isDefined && (args => isDefined(numbers(args)[0]))
+});
+
+const BUILTIN_FUNCTIONS: FunctionDefinition[] = [
+  unary('SQR', 'Square of x', x => x * x),
+  unary('SQRT', 'Square root of x', Math.sqrt, x => x >= 0),
+  unary('SIN', 'Sine of x (radians)', Math.sin),
+  unary('COS', 'Cosine of x (radians)', Math.cos),
+  // Math.cos(PI / 2) is 6e-17 rather than 0, so the poles need a tolerance
+  unary('TAN', 'Tangent of x (radians)', Math.tan, x => Math.abs(Math.cos(x)) > 1e-12),
+  unary('EXP', 'e raised to the power of x', Math.exp),
+  unary('LOG', 'Natural logarithm of x', Math.log, x => x > 0),
+  unary('LOG10', 'Base-10 logarithm of x', Math.log10, x => x > 0),
+  unary('ABS', 'Absolute value of x', Math.abs),
+  unary('FLOOR', 'Largest integer not greater than x', Math.floor),
+  unary('CEIL', 'Smallest integer not less than x', Math.ceil),
+  {
+    name: 'ROUND',
+    minArity: 1,
+    maxArity: 2,
+    parameterTypes: ['number', 'number'],
+    returnType: 'number',
+    description: 'x rounded to the given number of decimal digits (default 0)',
+    implementation: args => {
+      const [x, digits = 0] = numbers(args);
+      return Math.round(x * 10 ** digits) / 10 ** digits;
+    }
+  },
+  {
+    name: 'MIN',
+    minArity: 1,
+    maxArity: Infinity,
+    parameterTypes: ['number'],
+    returnType: 'number',
+    description: 'Smallest of the arguments',
+    implementation: args => Math.min(...numbers(args))
+  },
+  {
+    name: 'MAX',
+    minArity: 1,
+    maxArity: Infinity,
+    parameterTypes: ['number'],
+    returnType: 'number',
+    description: 'Largest of the arguments',
+    implementation: args => Math.max(...numbers(args))
+  }
+];
+
+/**
+ * Single source of truth for the functions a formula may call. The evaluator,
+ * the validator, the block palette and the editor's autocomplete all read from it.
+ *
+ * Teams add their own functions with provideFormulaFunctions() in the app config,
+ * or at runtime with register(); a later definition replaces one with the same name.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class FunctionRegistryService {
+  private readonly _functions = signal(new Map<string, FunctionDefinition>());
+
+  public readonly functions = computed(() => [...this._functions().values()]);
+  public readonly names = computed(() => this.functions().map(fn => fn.name));
+
+  constructor() {
+    const provided = inject(FORMULA_FUNCTIONS, { optional: true }) ?? [];
+    [BUILTIN_FUNCTIONS, ...provided].flat().forEach(fn => this.register(fn));
+  }
+
+  register(fn: FunctionDefinition): void {
+    this._functions.update(functions => new Map(functions).set(fn.name.toUpperCase(), fn));
+  }
+
+  get(name: string): FunctionDefinition | undefined {
+    return this._functions().get(name.toUpperCase());
+  }
+
+  has(name: string): boolean {
+    return this._functions().has(name.toUpperCase());
+  }
+}
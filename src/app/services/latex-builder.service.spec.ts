@@ -0,0 +1,48 @@
+import { TestBed } from '@angular/core/testing';
+import { AstNode } from '../models/ast-node.model';
+import { parseFormula } from '../parser/formula-parser';
+import { LatexBuilderService } from './latex-builder.service';
+
+describe('LatexBuilderService', () => {
+  let latexBuilder: LatexBuilderService;
+
+  const latex = (formula: string) => latexBuilder.buildLatex(parseFormula(formula));
+
+  beforeEach(() => {
+    latexBuilder = TestBed.inject(LatexBuilderService);
+  });
+
+  it.each([
+    ['$a / 2', '\\frac{a}{2}'],
+    ['SQRT($x)', '\\sqrt{x}'],
+    ['PI * SQR($r)', '\\pi \\cdot r^{2}'],
+    ['($x + 1) ^ 2', '\\left(x + 1\\right)^{2}'],
+    ['2 ^ 3 ^ 2', '2^{3^{2}}'],
+    ['-($a + $b)', '-\\left(a + b\\right)'],
+    ['EXP(-$t)', 'e^{-t}'],
+    ['ABS($x)', '\\left|x\\right|'],
+    ['SIN($x) + LOG10($y)', '\\sin\\left(x\\right) + \\log_{10}\\left(y\\right)'],
+    ['CUSTOM(1, 2)', '\\operatorname{CUSTOM}\\left(1, 2\\right)'],
+    ['$revenue_2024 * E', '\\mathit{revenue\\_2024} \\cdot e'],
+    ['SQRT(?)', '\\sqrt{\\square}']
+  ])('should convert %s to %s', (formula, expected) => {
+    expect(latex(formula)).toBe(expected);
+  });
+
+  it('should escape LaTeX special characters in strings', () => {
+    expect(latex("'50% & more'")).toBe("\\text{``50\\% \\& more''}");
+  });
+
+  it('should add parentheses the tree implies but does not contain', () => {
+    const ast: AstNode = {
+      type: 'MULTIPLICATION',
+      left: { type: 'ADDITION', left: { type: 'VARIABLE', name: '$a' }, right: { type: 'NUMBER', value: 1 } },
+      right: { type: 'VARIABLE', name: '$b' }
+    };
+    expect(latexBuilder.buildLatex(ast)).toBe('\\left(a + 1\\right) \\cdot b');
+  });
+
+  it('should return an empty string without a tree', () => {
+    expect(latexBuilder.buildLatex(null)).toBe('');
+  });
+});
@@ -0,0 +1,160 @@
+import { Injectable } from '@angular/core';
+import {
+  AstNode,
+  BinaryOperationNode,
+  ConstantNode,
+  ErrorNode,
+  FunctionNode,
+  NumberNode,
+  ReferenceNode,
+  StringNode,
+  UnaryOperationNode,
+  VariableNode,
+  WildcardNode,
+  isBinaryOperation
+} from '../models/ast-node.model';
+import { AstVisitor, visitAst } from '../models/ast-visitor.model';
+import { isNegativeNumber, needsParentheses } from '../models/precedence.model';
+
+const LATEX_SPECIAL_CHARS: Record<string, string> = {
+  '\\': '\\textbackslash{}',
+  '{': '\\{',
+  '}': '\\}',
+  '$': '\\$',
+  '&': '\\&',
+  '#': '\\#',
+  '_': '\\_',
+  '%': '\\%',
+  '^': '\\^{}',
+  '~': '\\~{}'
+};
+
+// Functions LaTeX has a named operator for
+const NAMED_FUNCTIONS: Record<string, string> = {
+  'SIN': '\\sin',
+  'COS': '\\cos',
+  'TAN': '\\tan',
+  'LOG': '\\ln',
+  'LOG10': '\\log_{10}',
+  'MIN': '\\min',
+  'MAX': '\\max'
+};
+
+@Injectable({
+  providedIn: 'root'
+})
+export class LatexBuilderService implements AstVisitor<string> {
+
+  private readonly operators: Record<string, string> = {
+    'ADDITION': '+',
+    'SUBTRACTION': '-',
+    'MULTIPLICATION': '\\cdot'
+  };
+
+  buildLatex(ast: AstNode | null): string {
+    if (!ast) return '';
+    return this.visit(ast);
+  }
+
+  private visit(node: AstNode, parent?: AstNode): string {
+    return visitAst(this, node, parent);
+  }
+
+  visitBinaryOperation(node: BinaryOperationNode, parent?: AstNode): string {
+    // \frac and superscripts group their operands, so those need no parentheses
+    if (node.type === 'DIVISION') {
+      return `\\frac{${this.visit(node.left)}}{${this.visit(node.right)}}`;
+    }
+    if (node.type === 'POWER') {
+      return this.superscript(node.left, this.visit(node.right));
+    }
+
+    const expression = `${this.visit(node.left, node)} ${this.operators[node.type]} ${this.visit(node.right, node)}`;
+    return parent && needsParentheses(parent, node) ? this.parenthesize(expression) : expression;
+  }
+
+  visitUnaryOperation(node: UnaryOperationNode): string {
+    const operand = this.visit(node.expression);
+
+    if (node.type === 'PAREN') {
+      return this.parenthesize(operand);
+    }
+    // Fractions and powers are grouped visually; sums and products are not
+    return node.expression.type in this.operators ? `-${this.parenthesize(operand)}` : `-${operand}`;
+  }
+
+  visitFunction(node: FunctionNode): string {
+    const name = node.name.toUpperCase();
+    const args = node.arguments.map(arg => this.visit(arg));
+
+    switch (name) {
+      case 'SQRT':
+        return `\\sqrt{${args[0] ?? ''}}`;
+      case 'SQR':
+        return node.arguments.length === 1 ? this.superscript(node.arguments[0], '2') : this.call(node, args);
+      case 'EXP':
+        return `e^{${args[0] ?? ''}}`;
+      case 'ABS':
+        return `\\left|${args.join(', ')}\\right|`;
+      case 'FLOOR':
+        return `\\left\\lfloor ${args.join(', ')} \\right\\rfloor`;
+      case 'CEIL':
+        return `\\left\\lceil ${args.join(', ')} \\right\\rceil`;
+      default:
+        return this.call(node, args);
+    }
+  }
+
+  visitNumber(node: NumberNode): string {
+    return String(node.value);
+  }
+
+  visitVariable(node: VariableNode): string {
+    const name = node.name.replace(/^\$/, '');
+    return name.length === 1 ? name : `\\mathit{${this.escape(name)}}`;
+  }
+
+  visitString(node: StringNode): string {
+    return `\\text{\`\`${this.escape(node.value)}''}`;
+  }
+
+  visitConstant(node: ConstantNode): string {
+    return node.type === 'PI' ? '\\pi' : 'e';
+  }
+
+  visitReference(node: ReferenceNode): string {
+    return `\\mathrm{${this.escape(node.name)}}`;
+  }
+
+  visitWildcard(node: WildcardNode): string {
+    return `?\\mathit{${this.escape(node.name)}}`;
+  }
+
+  visitError(node: ErrorNode): string {
+    return `\\text{${this.escape(node.text || '?')}}`;
+  }
+
+  visitPlaceholder(): string {
+    return '\\square';
+  }
+
+  private call(node: FunctionNode, args: string[]): string {
+    const name = NAMED_FUNCTIONS[node.name.toUpperCase()] ?? `\\operatorname{${this.escape(node.name)}}`;
+    return `${name}${this.parenthesize(args.join(', '))}`;
+  }
+
+  // Operators and negations in a base need parentheses: (a + b)^{2}, (-x)^{2}
+  private superscript(base: AstNode, exponent: string): string {
+    const needsGrouping = isBinaryOperation(base) || base.type === 'NEGATION' || isNegativeNumber(base);
+    const baseLatex = this.visit(base);
+    return `${needsGrouping ? this.parenthesize(baseLatex) : baseLatex}^{${exponent}}`;
+  }
+
+  private parenthesize(latex: string): string {
+    return `\\left(${latex}\\right)`;
+  }
+
+  private escape(text: string): string {
+    return text.replace(/[\\{}$&#_%^~]/g, char => LATEX_SPECIAL_CHARS[char]);
+  }
+}
@@ -0,0 +1,46 @@
+import { TestBed } from '@angular/core/testing';
+import { parseFormula } from '../parser/formula-parser';
+import { MathmlBuilderService } from './mathml-builder.service';
+
+describe('MathmlBuilderService', () => {
+  let mathmlBuilder: MathmlBuilderService;
+
+  const mathml = (formula: string) => mathmlBuilder.buildMathml(parseFormula(formula));
+
+  beforeEach(() => {
+    mathmlBuilder = TestBed.inject(MathmlBuilderService);
+  });
+
+  it('should wrap the formula in a math element', () => {
+    expect(mathml('$a / 2')).toBe(
+      '<math xmlns="http://www.w3.org/1998/Math/MathML" display="block"><mfrac><mi>a</mi><mn>2</mn></mfrac></math>'
+    );
+    expect(mathmlBuilder.buildMathml(parseFormula('1'), 'inline')).toContain('display="inline"');
+  });
+
+  it('should group operands by precedence', () => {
+    expect(mathml('1 + 2 * 3')).toContain(
+      '<mrow><mn>1</mn><mo>+</mo><mrow><mn>2</mn><mo>&#x22C5;</mo><mn>3</mn></mrow></mrow>'
+    );
+  });
+
+  it.each([
+    ['SQRT($x)', '<msqrt><mi>x</mi></msqrt>'],
+    ['SQR($r)', '<msup><mi>r</mi><mrow><mn>2</mn></mrow></msup>'],
+    ['SIN($x)', '<mi>sin</mi><mo>&#x2061;</mo><mrow><mo>(</mo><mi>x</mi><mo>)</mo></mrow>'],
+    ['PI', '<mi>&#x3C0;</mi>'],
+    ['?', '<mi mathvariant="normal">&#x25A1;</mi>']
+  ])('should render %s with %s', (formula, expected) => {
+    expect(mathml(formula)).toContain(expected);
+  });
+
+  it('should escape markup in strings', () => {
+    const result = mathml("'<b>&'");
+    expect(result).toContain('<ms>&lt;b&gt;&amp;</ms>');
+    expect(result).not.toContain('<b>');
+  });
+
+  it('should return an empty string without a tree', () => {
+    expect(mathmlBuilder.buildMathml(null)).toBe('');
+  });
+});
@@ -0,0 +1,160 @@
+import { Injectable } from '@angular/core';
+import {
+  AstNode,
+  BinaryOperationNode,
+  ConstantNode,
+  ErrorNode,
+  FunctionNode,
+  NumberNode,
+  ReferenceNode,
+  StringNode,
+  UnaryOperationNode,
+  VariableNode,
+  WildcardNode,
+  isBinaryOperation
+} from '../models/ast-node.model';
+import { AstVisitor, visitAst } from '../models/ast-visitor.model';
+import { isNegativeNumber, needsParentheses } from '../models/precedence.model';
+
+const XML_ESCAPES: Record<string, string> = {
+  '&': '&amp;',
+  '<': '&lt;',
+  '>': '&gt;',
+  '"': '&quot;',
+  "'": '&apos;'
+};
+
+// Functions with a conventional lowercase name in typeset math
+const NAMED_FUNCTIONS: Record<string, string> = {
+  'SIN': 'sin',
+  'COS': 'cos',
+  'TAN': 'tan',
+  'LOG': 'ln',
+  'MIN': 'min',
+  'MAX': 'max'
+};
+
+/**
+ * Presentation MathML for a formula. All text content is escaped, so the
+ * markup can be inserted into the page as-is.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class MathmlBuilderService implements AstVisitor<string> {
+
+  private readonly operators: Record<string, string> = {
+    'ADDITION': '+',
+    'SUBTRACTION': '&#x2212;',
+    'MULTIPLICATION': '&#x22C5;'
+  };
+
+  buildMathml(ast: AstNode | null, display: 'block' | 'inline' = 'block'): string {
+    if (!ast) return '';
+    return `<math xmlns="http://www.w3.org/1998/Math/MathML" display="${display}">${this.visit(ast)}</math>`;
+  }
+
+  private visit(node: AstNode, parent?: AstNode): string {
+    return visitAst(this, node, parent);
+  }
+
+  visitBinaryOperation(node: BinaryOperationNode, parent?: AstNode): string {
+    if (node.type === 'DIVISION') {
+      return `<mfrac>${this.visit(node.left)}${this.visit(node.right)}</mfrac>`;
+    }
+    if (node.type === 'POWER') {
+      return this.superscript(node.left, this.visit(node.right));
+    }
+
+    const expression = `${this.visit(node.left, node)}<mo>${this.operators[node.type]}</mo>${this.visit(node.right, node)}`;
+    return parent && needsParentheses(parent, node) ? this.parenthesize(expression) : `<mrow>${expression}</mrow>`;
+  }
+
+  visitUnaryOperation(node: UnaryOperationNode): string {
+    const operand = this.visit(node.expression);
+
+    if (node.type === 'PAREN') {
+      return this.parenthesize(operand);
+    }
+    const grouped = node.expression.type in this.operators ? this.parenthesize(operand) : operand;
+    return `<mrow><mo>&#x2212;</mo>${grouped}</mrow>`;
+  }
+
+  visitFunction(node: FunctionNode): string {
+    const name = node.name.toUpperCase();
+    const args = node.arguments.map(arg => this.visit(arg));
+
+    switch (name) {
+      case 'SQRT':
+        return `<msqrt>${args.join('')}</msqrt>`;
+      case 'SQR':
+        return node.arguments.length === 1 ? this.superscript(node.arguments[0], '<mn>2</mn>') : this.call(node, args);
+      case 'EXP':
+        return `<msup><mi>e</mi><mrow>${args.join('')}</mrow></msup>`;
+      case 'ABS':
+        return `<mrow><mo>|</mo>${args.join('')}<mo>|</mo></mrow>`;
+      case 'FLOOR':
+        return `<mrow><mo>&#x230A;</mo>${args.join('')}<mo>&#x230B;</mo></mrow>`;
+      case 'CEIL':
+        return `<mrow><mo>&#x2308;</mo>${args.join('')}<mo>&#x2309;</mo></mrow>`;
+      default:
+        return this.call(node, args);
+    }
+  }
+
+  visitNumber(node: NumberNode): string {
+    return `<mn>${node.value}</mn>`;
+  }
+
+  visitVariable(node: VariableNode): string {
+    return `<mi>${this.escape(node.name.replace(/^\$/, ''))}</mi>`;
+  }
+
+  visitString(node: StringNode): string {
+    return `<ms>${this.escape(node.value)}</ms>`;
+  }
+
+  visitConstant(node: ConstantNode): string {
+    return node.type === 'PI' ? '<mi>&#x3C0;</mi>' : '<mi>e</mi>';
+  }
+
+  visitReference(node: ReferenceNode): string {
+    return `<mi mathvariant="normal">${this.escape(node.name)}</mi>`;
+  }
+
+  visitWildcard(node: WildcardNode): string {
+    return `<mi>?${this.escape(node.name)}</mi>`;
+  }
+
+  visitError(node: ErrorNode): string {
+    return `<merror><mtext>${this.escape(node.text || '?')}</mtext></merror>`;
+  }
+
+  visitPlaceholder(): string {
+    return '<mi mathvariant="normal">&#x25A1;</mi>';
+  }
+
+  private call(node: FunctionNode, args: string[]): string {
+    const name = node.name.toUpperCase() === 'LOG10'
+      ? '<msub><mi>log</mi><mn>10</mn></msub>'
+      : `<mi>${this.escape(NAMED_FUNCTIONS[node.name.toUpperCase()] ?? node.name)}</mi>`;
+
+    // U+2061 FUNCTION APPLICATION tells screen readers this is a call, not a product
+    const separated = args.join('<mo separator="true">,</mo>');
+    return `<mrow>${name}<mo>&#x2061;</mo>${this.parenthesize(separated)}</mrow>`;
+  }
+
+  private superscript(base: AstNode, exponent: string): string {
+    const needsGrouping = isBinaryOperation(base) || base.type === 'NEGATION' || isNegativeNumber(base);
+    const baseMathml = this.visit(base);
+    return `<msup>${needsGrouping ? this.parenthesize(baseMathml) : baseMathml}<mrow>${exponent}</mrow></msup>`;
+  }
+
+  private parenthesize(mathml: string): string {
+    return `<mrow><mo>(</mo>${mathml}<mo>)</mo></mrow>`;
+  }
+
+  private escape(text: string): string {
+    return text.replace(/[&<>"']/g, char => XML_ESCAPES[char]);
+  }
+}
@@ -0,0 +1,61 @@
+import { TestBed } from '@angular/core/testing';
+import { BinaryOperationNode, FunctionNode } from '../models/ast-node.model';
+import { parseFormula } from '../parser/formula-parser';
+import { provideMemoryStorage } from '../testing/workspace-storage';
+import { AstManipulatorService } from './ast-manipulator.service';
+import { FormulaBuilderService } from './formula-builder.service';
+import { NodeMoveService } from './node-move.service';
+
+describe('NodeMoveService', () => {
+  let service: NodeMoveService;
+  let astService: AstManipulatorService;
+
+  const root = () => astService.ast() as BinaryOperationNode;
+  const call = () => root().left as FunctionNode;
+
+  beforeEach(() => {
+    TestBed.configureTestingModule({ providers: [provideMemoryStorage()] });
+    service = TestBed.inject(NodeMoveService);
+    astService = TestBed.inject(AstManipulatorService);
+    astService.setAst(parseFormula('MAX($a, $b) + ?'));
+  });
+
+  it('should offer a position only while a node is picked up', () => {
+    expect(service.positionFor(root().right.id, 'middle')).toBeNull();
+
+    service.start(call().arguments[0].id);
+    expect(service.positionFor(root().right.id, 'middle')).toBe('into');
+
+    service.cancel();
+    expect(service.movingId()).toBeNull();
+  });
+
+  it('should put an argument before or after another at its ends and swap in the middle', () => {
+    const [a, b] = call().arguments.map(arg => arg.id);
+    service.start(b);
+
+    expect(service.positionFor(a, 'start')).toBe('before');
+    expect(service.positionFor(a, 'middle')).toBe('swap');
+    // Already after $a, so the end of $a only swaps
+    expect(service.positionFor(a, 'end')).toBe('swap');
+  });
+
+  it('should not offer the own subtree', () => {
+    service.start(call().id);
+
+    expect(service.positionFor(call().arguments[0].id, 'middle')).toBeNull();
+    expect(service.positionFor(root().id, 'middle')).toBeNull();
+  });
+
+  it('should drop the picked-up node and report what cannot be dropped', () => {
+    const formulaBuilder = TestBed.inject(FormulaBuilderService);
+    service.start(call().id);
+
+    expect(service.dropOn(call().arguments[1].id, 'swap')).toBe('A node cannot be dropped into its own subtree');
+    expect(service.movingId()).toBe(call().id);
+
+    expect(service.dropOn(root().right.id, 'into')).toBeNull();
+    expect(formulaBuilder.buildFormula(astService.ast())).toBe('? + MAX($a, $b)');
+    expect(service.movingId()).toBeNull();
+  });
+});
@@ -0,0 +1,53 @@
+import { Injectable, inject, signal } from '@angular/core';
+import { NodeDropZone, NodeMovePosition } from '../models/node-move.model';
+import { AstManipulatorService } from './ast-manipulator.service';
+
+/**
+ * The node being moved, picked up by dragging it or by keyboard, and where it
+ * may be dropped. The move itself is `AstManipulatorService.moveNode`.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class NodeMoveService {
+  private readonly astService = inject(AstManipulatorService);
+
+  private readonly _movingId = signal<string | null>(null);
+
+  public readonly movingId = this._movingId.asReadonly();
+
+  start(nodeId: string): void {
+    this._movingId.set(nodeId);
+  }
+
+  cancel(): void {
+    this._movingId.set(null);
+  }
+
+  // The ends of a function argument put the node next to it; anywhere else it
+  // fills an empty slot or swaps places. Null when the node cannot go there.
+  positionFor(targetId: string, zone: NodeDropZone): NodeMovePosition | null {
+    const movingId = this._movingId();
+    const target = this.astService.findNode(targetId);
+    if (!movingId || !target) {
+      return null;
+    }
+
+    const candidates: NodeMovePosition[] = [];
+    if (zone === 'start') candidates.push('before');
+    if (zone === 'end') candidates.push('after');
+    candidates.push(target.type === 'PLACEHOLDER' ? 'into' : 'swap');
+    return candidates.find(position => !this.astService.moveError(movingId, targetId, position)) ?? null;
+  }
+
+  // Moves the picked-up node; returns why it could not be moved, or null
+  dropOn(targetId: string, position: NodeMovePosition): string | null {
+    const movingId = this._movingId();
+    const error = movingId ? this.astService.moveError(movingId, targetId, position) : 'Nothing to move';
+    if (!error) {
+      this.astService.moveNode(movingId, targetId, position);
+      this._movingId.set(null);
+    }
+    return error;
+  }
+}
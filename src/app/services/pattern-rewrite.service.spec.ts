@@ -0,0 +1,175 @@
+import { TestBed } from '@angular/core/testing';
+import { AstNode } from '../models/ast-node.model';
+import { CompiledRule, RewriteMode } from '../models/rewrite-rule.model';
+import { parseFormula } from '../parser/formula-parser';
+import { provideMemoryStorage } from '../testing/workspace-storage';
+import { AstManipulatorService } from './ast-manipulator.service';
+import { FormulaBuilderService } from './formula-builder.service';
+import { PatternRewriteService } from './pattern-rewrite.service';
+
+describe('PatternRewriteService', () => {
+  let service: PatternRewriteService;
+  let formulaBuilder: FormulaBuilderService;
+
+  const compile = (pattern: string, replacement = ''): CompiledRule => {
+    const result = service.compile({ pattern, replacement });
+    if (result.ok === false) {
+      throw new Error(result.error);
+    }
+    return result.rule;
+  };
+
+  const find = (pattern: string, formula: string) =>
+    service.findMatches(compile(pattern).pattern, parseFormula(formula))
+      .map(match => formulaBuilder.buildFormula(match.node));
+
+  const rewrite = (formula: string, pattern: string, replacement: string, mode: RewriteMode = 'repeat') =>
+    formulaBuilder.buildFormula(service.rewrite(parseFormula(formula), [compile(pattern, replacement)], mode).ast);
+
+  beforeEach(() => {
+    TestBed.configureTestingModule({ providers: [provideMemoryStorage()] });
+    service = TestBed.inject(PatternRewriteService);
+    formulaBuilder = TestBed.inject(FormulaBuilderService);
+  });
+
+  describe('compile', () => {
+    it('should name the part of the rule that does not parse', () => {
+      expect(service.compile({ pattern: '?x +', replacement: '' })).toEqual({
+        ok: false,
+        error: 'Pattern: Unexpected end of formula'
+      });
+      expect(service.compile({ pattern: '?x', replacement: '?x:foo' })).toMatchObject({
+        ok: false,
+        error: expect.stringMatching(/^Replacement: Unknown wildcard kind "foo"/)
+      });
+    });
+
+    it('should reject a replacement with wildcards the pattern does not define', () => {
+      expect(service.compile({ pattern: '?x * 2', replacement: '?x + ?y' })).toEqual({
+        ok: false,
+        error: 'Replacement uses ?y, which the pattern does not define'
+      });
+    });
+
+    it('should keep a rule without a replacement for searching', () => {
+      expect(compile('?x / 2').replacement).toBeNull();
+    });
+  });
+
+  describe('findMatches', () => {
+    it('should find every match, including matches inside matches', () => {
+      expect(find('SQR(?x)', 'SQR(SQR($a)) + sqr(2)')).toEqual(['SQR(SQR($a))', 'SQR($a)', 'sqr(2)']);
+    });
+
+    it('should only match wildcards of the given kind', () => {
+      const formula = '$a / 2 + $b / (PI * 2) + $c / $d + 1 / SQRT(3)';
+      expect(find('?x / ?c:constant', formula)).toEqual(['$a / 2', '$b / (PI * 2)', '1 / SQRT(3)']);
+      expect(find('?x / ?p:parameter', formula)).toEqual(['$c / $d']);
+      expect(find('?n:number / ?f:function', formula)).toEqual(['1 / SQRT(3)']);
+    });
+
+    it('should require the same subtree wherever a name repeats', () => {
+      expect(find('?x - ?x', '($a + 1) - ($a + 1) + ($a - $b)')).toEqual(['($a + 1) - ($a + 1)']);
+      expect(find('? - ?', '$a - $b')).toEqual(['$a - $b']);
+    });
+
+    it('should ignore parentheses in the pattern and the tree', () => {
+      expect(find('(?x + 1) * 2', '((($a) + 1)) * 2')).toEqual(['((($a) + 1)) * 2']);
+    });
+
+    it('should compare numbers by value and names exactly', () => {
+      expect(find('2 * ?x', '2.0 * $a + 2.5 * $b + 02 * $c')).toEqual(['2 * $a', '2 * $c']);
+      expect(find('$a + ?', '$a + 1 - ($ab + 2)')).toEqual(['$a + 1']);
+      expect(find("@rate * 'x'", "@rate * 'x' + @rate * 'y'")).toEqual(["@rate * 'x'"]);
+    });
+
+    it('should bind wildcards to the matched subtrees', () => {
+      const [match] = service.findMatches(compile('?base ^ ?exp').pattern, parseFormula('($a + 1) ^ 2'));
+      expect(formulaBuilder.buildFormula(match.bindings['base'])).toBe('$a + 1');
+      expect(match.bindings['exp']).toMatchObject({ type: 'NUMBER', value: 2 });
+    });
+  });
+
+  describe('rewrite', () => {
+    it('should rewrite with the bound subtrees, keeping the grouping', () => {
+      expect(rewrite('SQR($a + 1) * 2', 'SQR(?x)', '?x ^ 2')).toBe('($a + 1) ^ 2 * 2');
+    });
+
+    it('should rewrite matches made by an earlier pass only when repeating', () => {
+      expect(rewrite('SQR(SQR($a))', 'SQR(?x)', '?x * ?x', 'once')).toBe('SQR($a) * SQR($a)');
+      expect(rewrite('SQR(SQR($a))', 'SQR(?x)', '?x * ?x')).toBe('$a * $a * ($a * $a)');
+      expect(rewrite('---$a', '--?x', '?x')).toBe('-$a');
+    });
+
+    it('should report the number of replacements and passes', () => {
+      const result = service.rewrite(parseFormula('$a * 1 * 1 + $b * 1'), [compile('?x * 1', '?x')], 'repeat');
+      expect(result).toMatchObject({ applied: 3, passes: 3, converged: true });
+    });
+
+    it('should stop a rule that keeps applying to its own output', () => {
+      const result = service.rewrite(parseFormula('$a'), [compile('?x', '?x + 0')], 'repeat');
+      expect(result.converged).toBe(false);
+      expect(result.passes).toBe(50);
+    });
+
+    it('should give a subtree placed twice new ids the second time', () => {
+      const astService = TestBed.inject(AstManipulatorService);
+      astService.setAst(parseFormula('SQR($a + 1)'));
+      const root = astService.ast();
+      const original = root?.type === 'FUNCTION' ? root.arguments[0] : root;
+      service.setRule({ pattern: 'SQR(?x)', replacement: '?x * ?x' });
+
+      service.apply('once');
+
+      const ast = astService.ast();
+      const [left, right] = ast?.type === 'MULTIPLICATION' ? [ast.left, ast.right] : [];
+      expect(left?.id).toBe(original?.id);
+      expect(right?.id).toBeDefined();
+      expect(right?.id).not.toBe(left?.id);
+    });
+  });
+
+  describe('with the current tree', () => {
+    let astService: AstManipulatorService;
+
+    beforeEach(() => {
+      astService = TestBed.inject(AstManipulatorService);
+      astService.setAst(parseFormula('$a * 1 + SQR($b * 1)'));
+    });
+
+    it('should highlight the matches of the current rule', () => {
+      service.setRule({ pattern: '?x * 1' });
+
+      const ids = service.matches().map(match => match.node.id as string);
+      expect(ids).toHaveLength(2);
+      expect(ids.every(id => service.isMatched(id))).toBe(true);
+
+      service.setRule({ pattern: '' });
+      expect(service.matchedIds().size).toBe(0);
+    });
+
+    it('should apply the rule as one step that can be undone', () => {
+      const before = formulaBuilder.buildFormula(astService.ast() as AstNode);
+      service.setRule({ pattern: '?x * 1', replacement: '?x' });
+
+      expect(service.apply('repeat')).toMatchObject({ applied: 2 });
+      expect(formulaBuilder.buildFormula(astService.ast() as AstNode)).toBe('$a + SQR($b)');
+      expect(astService.history().at(-1)?.description).toBe('Rewrote 2 × ?x * 1 → ?x');
+      expect(service.matches()).toEqual([]);
+
+      astService.undo();
+      expect(formulaBuilder.buildFormula(astService.ast() as AstNode)).toBe(before);
+    });
+
+    it('should do nothing without a replacement or a match', () => {
+      const entries = astService.history().length;
+
+      service.setRule({ pattern: '?x * 1', replacement: '' });
+      expect(service.apply('once')).toBeNull();
+      service.setRule({ pattern: '?x * 3', replacement: '?x' });
+      expect(service.apply('once')).toBeNull();
+
+      expect(astService.history()).toHaveLength(entries);
+    });
+  });
+});
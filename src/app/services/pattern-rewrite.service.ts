@@ -0,0 +1,272 @@
+import { Injectable, computed, inject, signal } from '@angular/core';
+import {
+  AstNode,
+  WildcardKind,
+  getChildNodes,
+  isFunction,
+  isLeafNode,
+  isStructurallyEqual,
+  mapChildNodes,
+  withoutNodeIds
+} from '../models/ast-node.model';
+import {
+  CompiledRule,
+  PatternBindings,
+  PatternMatch,
+  RewriteMode,
+  RewriteResult,
+  RewriteRule,
+  RuleCompileResult
+} from '../models/rewrite-rule.model';
+import { parsePattern } from '../parser/formula-parser';
+import { AstManipulatorService } from './ast-manipulator.service';
+
+// Guards against rules that keep applying to their own output, e.g. ?x -> ?x + 0
+const MAX_PASSES = 50;
+
+/**
+ * Structural search and replace. Patterns are formulas with wildcards:
+ * ?name matches any subtree (the same subtree wherever the name repeats),
+ * ?name:kind only a number, constant, parameter or function call, and a
+ * bare ? anything. Parentheses in the pattern and the tree are ignored.
+ *
+ * Also holds the rule being edited, so the tree can highlight its matches.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class PatternRewriteService {
+  private readonly astService = inject(AstManipulatorService);
+
+  private readonly _rule = signal<RewriteRule>({ pattern: '', replacement: '' });
+
+  public readonly rule = this._rule.asReadonly();
+
+  public readonly compiled = computed(() => {
+    const rule = this._rule();
+    return rule.pattern.trim() ? this.compile(rule) : null;
+  });
+
+  // Matches of the current pattern in the current tree
+  public readonly matches = computed(() => {
+    const compiled = this.compiled();
+    const astValue = this.astService.ast();
+    return compiled?.ok && astValue ? this.findMatches(compiled.rule.pattern, astValue) : [];
+  });
+
+  public readonly matchedIds = computed(() =>
+    new Set(this.matches().map(match => match.node.id).filter((id): id is string => !!id))
+  );
+
+  setRule(rule: Partial<RewriteRule>): void {
+    this._rule.update(current => ({ ...current, ...rule }));
+  }
+
+  isMatched(nodeId: string): boolean {
+    return this.matchedIds().has(nodeId);
+  }
+
+  compile(rule: RewriteRule): RuleCompileResult {
+    let pattern: AstNode;
+    try {
+      pattern = this.normalize(parsePattern(rule.pattern));
+    } catch (error) {
+      return { ok: false, error: `Pattern: ${this.messageOf(error)}` };
+    }
+
+    if (!rule.replacement.trim()) {
+      return { ok: true, rule: { source: rule, pattern, replacement: null } };
+    }
+
+    let replacement: AstNode;
+    try {
+      replacement = this.normalize(parsePattern(rule.replacement));
+    } catch (error) {
+      return { ok: false, error: `Replacement: ${this.messageOf(error)}` };
+    }
+
+    const defined = this.wildcardNames(pattern);
+    const undefinedName = this.wildcardNames(replacement).find(name => !defined.includes(name));
+    if (undefinedName) {
+      return { ok: false, error: `Replacement uses ?${undefinedName}, which the pattern does not define` };
+    }
+
+    return { ok: true, rule: { source: rule, pattern, replacement } };
+  }
+
+  // Every match in pre-order, including matches inside other matches
+  findMatches(pattern: AstNode, ast: AstNode): PatternMatch[] {
+    const matches: PatternMatch[] = [];
+    const visit = (node: AstNode) => {
+      const bindings = node.type === 'PAREN' ? null : this.match(pattern, node);
+      if (bindings) {
+        matches.push({ node, bindings });
+      }
+      getChildNodes(node).forEach(visit);
+    };
+    visit(ast);
+    return matches;
+  }
+
+  // The wildcards' subtrees when the node matches the pattern, otherwise null
+  match(pattern: AstNode, node: AstNode): PatternBindings | null {
+    const bindings: PatternBindings = {};
+    return this.matchNode(pattern, node, bindings) ? bindings : null;
+  }
+
+  // Rewrites the current tree with the current rule as one undoable step; null when nothing applies
+  apply(mode: RewriteMode): RewriteResult | null {
+    const compiled = this.compiled();
+    const astValue = this.astService.ast();
+    if (!compiled?.ok || !compiled.rule.replacement || !astValue) {
+      return null;
+    }
+
+    const result = this.rewrite(astValue, [compiled.rule], mode);
+    const { pattern, replacement } = compiled.rule.source;
+    const applied = result.applied > 0 && this.astService.execute({
+      description: `Rewrote ${result.applied} × ${pattern.trim()} → ${replacement.trim()}`,
+      execute: () => result.ast
+    });
+    return applied ? result : null;
+  }
+
+  // Replaces outermost matches first; a replacement is not searched again in the same pass
+  rewrite(ast: AstNode, rules: CompiledRule[], mode: RewriteMode): RewriteResult {
+    const maxPasses = mode === 'once' ? 1 : MAX_PASSES;
+    let current = ast;
+    let applied = 0;
+    let passes = 0;
+
+    while (passes < maxPasses) {
+      const counter = { applied: 0 };
+      const next = this.rewriteNode(current, rules, counter);
+      passes++;
+      if (counter.applied === 0) break;
+
+      applied += counter.applied;
+      current = next;
+    }
+
+    const converged = rules.every(rule => !rule.replacement || this.findMatches(rule.pattern, current).length === 0);
+    return { ast: current, applied, passes, converged };
+  }
+
+  private rewriteNode(node: AstNode, rules: CompiledRule[], counter: { applied: number }): AstNode {
+    if (node.type !== 'PAREN') {
+      for (const rule of rules) {
+        const bindings = rule.replacement ? this.match(rule.pattern, node) : null;
+        if (rule.replacement && bindings) {
+          counter.applied++;
+          return this.instantiate(rule.replacement, bindings, new Set());
+        }
+      }
+    }
+
+    return mapChildNodes(node, child => this.rewriteNode(child, rules, counter));
+  }
+
+  private matchNode(pattern: AstNode, target: AstNode, bindings: PatternBindings): boolean {
+    const node = this.unwrap(target);
+
+    if (pattern.type === 'WILDCARD') {
+      if (pattern.kind && !this.isKind(node, pattern.kind)) {
+        return false;
+      }
+      const bound = bindings[pattern.name];
+      if (bound) {
+        return isStructurallyEqual(this.normalize(bound), this.normalize(node));
+      }
+      bindings[pattern.name] = node;
+      return true;
+    }
+
+    // A bare ? matches anything without naming it
+    if (pattern.type === 'PLACEHOLDER') {
+      return true;
+    }
+
+    if (pattern.type !== node.type) {
+      return false;
+    }
+    if (isFunction(pattern) && isFunction(node) && pattern.name.toUpperCase() !== node.name.toUpperCase()) {
+      return false;
+    }
+    if (isLeafNode(pattern) && !this.sameLeaf(pattern, node)) {
+      return false;
+    }
+
+    const patternChildren = getChildNodes(pattern);
+    const children = getChildNodes(node);
+    return patternChildren.length === children.length &&
+      patternChildren.every((child, index) => this.matchNode(child, children[index], bindings));
+  }
+
+  // Leaves of the same type: numbers and strings by value, names exactly, the rest by type alone
+  private sameLeaf(pattern: AstNode, node: AstNode): boolean {
+    switch (pattern.type) {
+      case 'NUMBER':
+      case 'STRING':
+        return node.type === pattern.type && node.value === pattern.value;
+      case 'VARIABLE':
+      case 'REFERENCE':
+        return node.type === pattern.type && node.name === pattern.name;
+      default:
+        return node.type === pattern.type;
+    }
+  }
+
+  private instantiate(template: AstNode, bindings: PatternBindings, used: Set<string>): AstNode {
+    if (template.type === 'WILDCARD') {
+      const bound = bindings[template.name];
+      // A subtree placed twice needs its own ids the second time; the manipulator assigns them
+      const copy = used.has(template.name) ? withoutNodeIds(bound) : bound;
+      used.add(template.name);
+      return copy;
+    }
+
+    return mapChildNodes(template, child => this.instantiate(child, bindings, used));
+  }
+
+  private isKind(node: AstNode, kind: WildcardKind): boolean {
+    switch (kind) {
+      case 'number':
+        return node.type === 'NUMBER';
+      case 'parameter':
+        return node.type === 'VARIABLE';
+      case 'function':
+        return node.type === 'FUNCTION';
+      case 'constant':
+        return this.isConstant(node);
+    }
+  }
+
+  // Numbers and constants, and operations or calls on nothing else
+  private isConstant(node: AstNode): boolean {
+    if (isLeafNode(node)) {
+      return ['NUMBER', 'PI', 'E'].includes(node.type);
+    }
+    const children = getChildNodes(node);
+    return children.length > 0 && children.every(child => this.isConstant(child));
+  }
+
+  private wildcardNames(node: AstNode): string[] {
+    const own = node.type === 'WILDCARD' ? [node.name] : [];
+    return [...own, ...getChildNodes(node).flatMap(child => this.wildcardNames(child))];
+  }
+
+  private unwrap(node: AstNode): AstNode {
+    return node.type === 'PAREN' ? this.unwrap(node.expression) : node;
+  }
+
+  // Without parentheses and source spans, as patterns and replacements are compared and placed
+  private normalize(node: AstNode): AstNode {
+    const copy = mapChildNodes(this.unwrap(node), child => this.normalize(child));
+    delete copy.span;
+    return copy;
+  }
+
+  private messageOf(error: unknown): string {
+    return error instanceof Error ? error.message : String(error);
+  }
+}
@@ -0,0 +1,77 @@
+import { TestBed } from '@angular/core/testing';
+import { parseFormula } from '../parser/formula-parser';
+import { provideMemoryStorage } from '../testing/workspace-storage';
+import { FormulaBuilderService } from './formula-builder.service';
+import { FunctionRegistryService } from './function-registry.service';
+import { SimplifierService } from './simplifier.service';
+
+describe('SimplifierService', () => {
+  let simplifier: SimplifierService;
+  let formulaBuilder: FormulaBuilderService;
+
+  const simplify = (formula: string) => simplifier.simplify(parseFormula(formula));
+  const simplified = (formula: string) => formulaBuilder.buildFormula(simplify(formula).ast);
+
+  beforeEach(() => {
+    TestBed.configureTestingModule({ providers: [provideMemoryStorage()] });
+    simplifier = TestBed.inject(SimplifierService);
+    formulaBuilder = TestBed.inject(FormulaBuilderService);
+  });
+
+  it.each([
+    ['(10 + 20) * 1', '30'],
+    ['--$x', '$x'],
+    ['-(-$x)', '$x'],
+    ['$x * 1 + 0', '$x'],
+    ['$x ^ 1 / 1', '$x'],
+    ['SQRT(16) * $r', '4 * $r'],
+    ['2 - 5', '-3'],
+    ['(($x))', '$x'],
+    ['$a + ($b * $c)', '$a + $b * $c'],
+    ['$x + $x', '2 * $x'],
+    ['2 * $x + 3 * $x', '5 * $x'],
+    ['($a + $b) * 4 - ($a + $b)', '3 * ($a + $b)'],
+    ['0.1 * $x + 0.2 * $x', '0.3 * $x'],
+    ['PI - PI', '0']
+  ])('should simplify %s to %s', (input, output) => {
+    expect(simplified(input)).toBe(output);
+  });
+
+  it.each([
+    ['1 / 3'],
+    ['1 / 0'],
+    ['$x * 0'],
+    ['$a - ($b - $c)'],
+    ['SQRT($x) - SQRT($x)'],
+    ['$x - $x'],
+    ['-(2 ^ $x)'],
+    ['10 ^ 400'],
+    ['1e308 * 10'],
+    ["'abc' * 1"],
+    ["0 + 'abc'"]
+  ])('should leave %s unchanged', input => {
+    expect(simplify(input).changed).toBe(false);
+  });
+
+  it('should report the rule behind each step', () => {
+    expect(simplify('(10 + 20) * 1').steps).toEqual([
+      { rule: 'Constant folding', before: '10 + 20', after: '30' },
+      { rule: 'Remove redundant parentheses', before: '(30)', after: '30' },
+      { rule: 'Constant folding', before: '30 * 1', after: '30' }
+    ]);
+  });
+
+  it('should not fold a call without arguments', () => {
+    TestBed.inject(FunctionRegistryService).register({
+      name: 'RAND',
+      minArity: 0,
+      maxArity: 0,
+      parameterTypes: [],
+      returnType: 'number',
+      description: 'Random number',
+      implementation: () => Math.random()
+    });
+
+    expect(simplify('RAND()').changed).toBe(false);
+  });
+});
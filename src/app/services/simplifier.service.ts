@@ -0,0 +1,240 @@
+import { Injectable, inject } from '@angular/core';
+import {
+  AstNode,
+  BinaryOperationNode,
+  isBinaryOperation,
+  isFunction,
+  isLeafNode,
+  isStructurallyEqual,
+  isUnaryOperation
+} from '../models/ast-node.model';
+import { OPERATOR_PRECEDENCE } from '../models/precedence.model';
+import { RuleContext, SimplificationResult, SimplificationRule, SimplificationStep } from '../models/simplification.model';
+import { FormulaBuilderService } from './formula-builder.service';
+import { FormulaEvaluatorService } from './formula-evaluator.service';
+import { TypeCheckerService } from './type-checker.service';
+
+// Guards against rule sets that keep rewriting each other's output
+const MAX_PASSES = 50;
+
+// Results are kept only when they survive rounding to this many digits, so 1 / 3 is not folded
+const SIGNIFICANT_DIGITS = 12;
+
+const num = (value: number): AstNode => value < 0
+  ? { type: 'NEGATION', expression: { type: 'NUMBER', value: -value } }
+  : { type: 'NUMBER', value };
+
+const isNumber = (node: AstNode, value?: number): boolean =>
+  node.type === 'NUMBER' && (value === undefined || node.value === value);
+
+/**
+ * Rewrites a tree into a simpler one with the same meaning, one rule at a time,
+ * bottom-up, until no rule applies. Every rewrite is recorded as a step so the
+ * user can see why the formula changed.
+ *
+ * Rules that could hide an error are avoided: x * 0 is not folded to 0, and
+ * like terms are only combined when evaluating them cannot fail and no
+ * parameter cancels out.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class SimplifierService {
+  private readonly formulaBuilder = inject(FormulaBuilderService);
+  private readonly evaluator = inject(FormulaEvaluatorService);
+  private readonly typeChecker = inject(TypeCheckerService);
+
+  private readonly rules: SimplificationRule[] = [
+    { name: 'Remove redundant parentheses', apply: (node, context) => this.removeParentheses(node, context) },
+    { name: 'Double negation', apply: node => this.removeDoubleNegation(node) },
+    { name: 'Constant folding', apply: node => this.foldConstants(node) },
+    { name: 'Identity', apply: node => this.applyIdentity(node) },
+    { name: 'Combine like terms', apply: node => this.combineLikeTerms(node) }
+  ];
+
+  simplify(ast: AstNode): SimplificationResult {
+    const steps: SimplificationStep[] = [];
+    let current = ast;
+
+    for (let pass = 0; pass < MAX_PASSES; pass++) {
+      const next = this.rewrite(current, { parentType: null, position: 'root' }, steps);
+      if (next === current) break;
+      current = next;
+    }
+
+    return { ast: current, steps, changed: steps.length > 0 };
+  }
+
+  // Simplifies the children first, then applies the first rule that matches the node
+  private rewrite(node: AstNode, context: RuleContext, steps: SimplificationStep[]): AstNode {
+    const updated = this.rewriteChildren(node, steps);
+
+    for (const rule of this.rules) {
+      const result = rule.apply(updated, context);
+      if (result) {
+        steps.push({
+          rule: rule.name,
+          before: this.formulaBuilder.buildFormula(updated),
+          after: this.formulaBuilder.buildFormula(result)
+        });
+        return result;
+      }
+    }
+
+    return updated;
+  }
+
+  private rewriteChildren(node: AstNode, steps: SimplificationStep[]): AstNode {
+    const parentType = node.type;
+
+    if (isBinaryOperation(node)) {
+      const left = this.rewrite(node.left, { parentType, position: 'left' }, steps);
+      const right = this.rewrite(node.right, { parentType, position: 'right' }, steps);
+      return left === node.left && right === node.right ? node : { ...node, left, right };
+    }
+
+    if (isUnaryOperation(node)) {
+      const expression = this.rewrite(node.expression, { parentType, position: 'operand' }, steps);
+      return expression === node.expression ? node : { ...node, expression };
+    }
+
+    if (isFunction(node)) {
+      const args = node.arguments.map(arg => this.rewrite(arg, { parentType, position: 'argument' }, steps));
+      return args.every((arg, index) => arg === node.arguments[index]) ? node : { ...node, arguments: args };
+    }
+
+    return node;
+  }
+
+  private removeParentheses(node: AstNode, context: RuleContext): AstNode | null {
+    if (node.type !== 'PAREN') return null;
+
+    const inner = node.expression;
+    const parent = context.parentType;
+    const atomic = isLeafNode(inner) || isFunction(inner) || inner.type === 'PAREN' ||
+      (inner.type === 'NEGATION' && parent === 'NEGATION');
+    const freeStanding = parent === null || parent === 'FUNCTION' || parent === 'PAREN';
+
+    return atomic || freeStanding || this.bindsTighter(inner, context) ? inner : null;
+  }
+
+  // True when the grouping is implied by precedence alone, e.g. a + (b * c)
+  private bindsTighter(inner: AstNode, context: RuleContext): boolean {
+    // Negations keep their parentheses either way: (-a) * b, -(2 ^ x)
+    if (!isBinaryOperation(inner) || context.parentType === 'NEGATION') {
+      return false;
+    }
+
+    const parentPrecedence = OPERATOR_PRECEDENCE[context.parentType];
+    const innerPrecedence = OPERATOR_PRECEDENCE[inner.type];
+    if (parentPrecedence === undefined || innerPrecedence === undefined) {
+      return false;
+    }
+
+    // Left-associative operators group equal precedence from the left: (a - b) - c
+    return innerPrecedence > parentPrecedence ||
+      (innerPrecedence === parentPrecedence && context.position === 'left' && context.parentType !== 'POWER');
+  }
+
+  private removeDoubleNegation(node: AstNode): AstNode | null {
+    if (node.type === 'NEGATION' && node.expression.type === 'NEGATION') {
+      return node.expression.expression;
+    }
+    return null;
+  }
+
+  private foldConstants(node: AstNode): AstNode | null {
+    const operands = isBinaryOperation(node) ? [node.left, node.right]
+      : isFunction(node) ? node.arguments
+      : null;
+
+    // A call without arguments may give a different value each time
+    if (!operands || operands.length === 0 || !operands.every(operand => isNumber(operand))) {
+      return null;
+    }
+
+    // Leave errors such as 1 / 0 in place, results that would lose precision, like 1 / 3,
+    // and overflows like 10 ^ 400, which no number in a formula can spell
+    const result = this.evaluator.tryEvaluate(node);
+    if (result.ok === false || !Number.isFinite(result.value) ||
+      Number(result.value.toPrecision(SIGNIFICANT_DIGITS)) !== result.value) {
+      return null;
+    }
+    return num(result.value);
+  }
+
+  // Only for numbers: 'abc' * 1 must still report its type error
+  private applyIdentity(node: AstNode): AstNode | null {
+    if (!isBinaryOperation(node)) return null;
+
+    const { left, right } = node;
+    const isNumeric = (operand: AstNode) => this.typeChecker.inferType(operand) === 'number';
+    switch (node.type) {
+      case 'ADDITION':
+        return isNumber(right, 0) && isNumeric(left) ? left : isNumber(left, 0) && isNumeric(right) ? right : null;
+      case 'SUBTRACTION':
+        return isNumber(right, 0) && isNumeric(left) ? left : null;
+      case 'MULTIPLICATION':
+        return isNumber(right, 1) && isNumeric(left) ? left : isNumber(left, 1) && isNumeric(right) ? right : null;
+      case 'DIVISION':
+      case 'POWER':
+        return isNumber(right, 1) && isNumeric(left) ? left : null;
+    }
+  }
+
+  // a*x + b*x -> (a + b) * x, for terms that can always be evaluated
+  private combineLikeTerms(node: AstNode): AstNode | null {
+    if (node.type !== 'ADDITION' && node.type !== 'SUBTRACTION') return null;
+
+    const left = this.splitTerm(node.left);
+    const right = this.splitTerm(node.right);
+    if (!isStructurallyEqual(left.base, right.base) || isNumber(left.base) || !this.isTotal(left.base)) {
+      return null;
+    }
+
+    // Rounded like folded constants, so 0.1 * x + 0.2 * x gives 0.3 * x
+    const coefficient = Number((node.type === 'ADDITION'
+      ? left.coefficient + right.coefficient
+      : left.coefficient - right.coefficient).toPrecision(SIGNIFICANT_DIGITS));
+
+    // $x - $x must still report $x when it is unbound
+    if (coefficient === 0) return this.hasParameters(left.base) ? null : num(0);
+    if (coefficient === 1) return left.base;
+    return { type: 'MULTIPLICATION', left: num(coefficient), right: this.group(left.base) };
+  }
+
+  private splitTerm(node: AstNode): { coefficient: number; base: AstNode } {
+    if (node.type === 'MULTIPLICATION') {
+      if (node.left.type === 'NUMBER') return { coefficient: node.left.value, base: node.right };
+      if (node.right.type === 'NUMBER') return { coefficient: node.right.value, base: node.left };
+    }
+    return { coefficient: 1, base: node };
+  }
+
+  // Keeps a + b grouped when it becomes the right operand of a multiplication
+  private group(node: AstNode): AstNode {
+    const precedence = OPERATOR_PRECEDENCE[node.type];
+    return precedence !== undefined && precedence <= OPERATOR_PRECEDENCE['MULTIPLICATION']
+      ? { type: 'PAREN', expression: node }
+      : node;
+  }
+
+  private hasParameters(node: AstNode): boolean {
+    if (node.type === 'VARIABLE') return true;
+    if (isBinaryOperation(node)) return this.hasParameters(node.left) || this.hasParameters(node.right);
+    if (isUnaryOperation(node)) return this.hasParameters(node.expression);
+    return false;
+  }
+
+  // Whether evaluation can never fail (given bound parameters): no calls, divisions or powers
+  private isTotal(node: AstNode): boolean {
+    if (isBinaryOperation(node)) {
+      const operator: BinaryOperationNode['type'] = node.type;
+      return operator !== 'DIVISION' && operator !== 'POWER' && this.isTotal(node.left) && this.isTotal(node.right);
+    }
+    if (isUnaryOperation(node)) {
+      return this.isTotal(node.expression);
+    }
+    return ['NUMBER', 'VARIABLE', 'PI', 'E'].includes(node.type);
+  }
+}
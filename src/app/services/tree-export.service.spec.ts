@@ -0,0 +1,45 @@
+import { TestBed } from '@angular/core/testing';
+import { getNodeMetadata } from '../models/node-metadata.model';
+import { parseFormula } from '../parser/formula-parser';
+import { TreeExportService } from './tree-export.service';
+
+describe('TreeExportService', () => {
+  let exportService: TreeExportService;
+
+  beforeEach(() => {
+    exportService = TestBed.inject(TreeExportService);
+  });
+
+  describe('toSvg', () => {
+    it('should produce a standalone SVG document titled with the formula', () => {
+      const svg = exportService.toSvg(parseFormula('PI * SQR($r)'));
+      expect(svg).toMatch(/^<svg xmlns="http:\/\/www.w3.org\/2000\/svg" width="\d+" height="\d+"/);
+      expect(svg).toContain('<title>PI * SQR($r)</title>');
+      expect(svg.trim().endsWith('</svg>')).toBe(true);
+    });
+
+    it('should draw one box per node and one edge per child', () => {
+      const svg = exportService.toSvg(parseFormula('PI * SQR($r)'));
+      expect(svg.match(/<rect width="\d+(\.\d+)?" height=/g)).toHaveLength(4);
+      expect(svg.match(/<path /g)).toHaveLength(3);
+    });
+
+    it('should use the metadata colours and icons', () => {
+      const svg = exportService.toSvg(parseFormula('$x + 1'));
+      const addition = getNodeMetadata('ADDITION');
+      expect(svg).toContain(`fill="${addition.color}"`);
+      expect(svg).toContain(`<tspan font-weight="bold">${addition.icon}</tspan> Add`);
+      expect(svg).toContain(`fill="${getNodeMetadata('VARIABLE').color}"`);
+    });
+
+    it('should draw empty slots as dashed outlines', () => {
+      expect(exportService.toSvg(parseFormula('?'))).toContain('fill="none" stroke="#999" stroke-dasharray="4 3"');
+    });
+
+    it('should escape node text', () => {
+      const svg = exportService.toSvg(parseFormula("'<a & b>'"));
+      expect(svg).toContain('&apos;&lt;a &amp; b&gt;&apos;');
+      expect(svg).not.toContain('<a ');
+    });
+  });
+});
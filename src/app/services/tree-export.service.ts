@@ -0,0 +1,128 @@
+import { Injectable, inject } from '@angular/core';
+import { AstNode } from '../models/ast-node.model';
+import { LayoutNode } from '../models/tree-layout.model';
+import { FormulaBuilderService } from './formula-builder.service';
+import { TreeLayoutService } from './tree-layout.service';
+
+const XML_ESCAPES: Record<string, string> = {
+  '&': '&amp;',
+  '<': '&lt;',
+  '>': '&gt;',
+  '"': '&quot;',
+  "'": '&apos;'
+};
+
+const FONT_FAMILY = "-apple-system, 'Segoe UI', Roboto, Arial, sans-serif";
+const EDGE_COLOR = '#bbb';
+const BORDER_COLOR = '#999';
+const TEXT_COLOR = '#333';
+
+/**
+ * Renders the tree as a standalone SVG document (node colours and icons come
+ * from the node metadata) and rasterises that SVG to PNG.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class TreeExportService {
+
+  private readonly layoutService = inject(TreeLayoutService);
+  private readonly formulaBuilder = inject(FormulaBuilderService);
+
+  toSvg(ast: AstNode | null): string {
+    const layout = this.layoutService.layout(ast);
+    const title = this.escape(this.formulaBuilder.buildFormula(ast));
+
+    const edges = layout.nodes.flatMap(parent =>
+      parent.children.map(child => this.edge(parent, child))
+    );
+    const boxes = layout.nodes.map(node => this.box(node));
+
+    return [
+      `<svg xmlns="http://www.w3.org/2000/svg" width="${layout.width}" height="${layout.height}" ` +
+        `viewBox="0 0 ${layout.width} ${layout.height}" font-family="${FONT_FAMILY}" font-size="14">`,
+      `<title>${title}</title>`,
+      `<rect width="100%" height="100%" fill="#fff"/>`,
+      `<g fill="none" stroke="${EDGE_COLOR}" stroke-width="2">${edges.join('')}</g>`,
+      `<g>${boxes.join('')}</g>`,
+      '</svg>'
+    ].join('\n');
+  }
+
+  async toPng(ast: AstNode | null, scale = 2): Promise<Blob> {
+    const layout = this.layoutService.layout(ast);
+    const image = await this.loadImage(this.toSvg(ast));
+
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.ceil(layout.width * scale);
+    canvas.height = Math.ceil(layout.height * scale);
+
+    const context = canvas.getContext('2d');
+    if (!context) {
+      throw new Error('Canvas rendering is not supported in this browser');
+    }
+    context.scale(scale, scale);
+    context.drawImage(image, 0, 0);
+
+    return new Promise((resolve, reject) => {
+      canvas.toBlob(blob => blob ? resolve(blob) : reject(new Error('Could not encode the PNG')), 'image/png');
+    });
+  }
+
+  download(content: Blob | string, fileName: string): void {
+    const blob = typeof content === 'string'
+      ? new Blob([content], { type: 'image/svg+xml' })
+      : content;
+    const url = URL.createObjectURL(blob);
+
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = fileName;
+    link.click();
+    URL.revokeObjectURL(url);
+  }
+
+  // A vertical S-curve from the bottom of the parent to the top of the child
+  private edge(parent: LayoutNode, child: LayoutNode): string {
+    const x1 = parent.x + parent.width / 2;
+    const y1 = parent.y + parent.height;
+    const x2 = child.x + child.width / 2;
+    const y2 = child.y;
+    const middle = (y1 + y2) / 2;
+    return `<path d="M${x1} ${y1} C${x1} ${middle} ${x2} ${middle} ${x2} ${y2}"/>`;
+  }
+
+  private box(node: LayoutNode): string {
+    // Empty slots have no fill colour and are drawn as a dashed outline
+    const empty = node.node.type === 'PLACEHOLDER';
+    const fill = empty ? 'none' : node.color;
+    const dash = empty || node.node.type === 'ERROR' ? ' stroke-dasharray="4 3"' : '';
+
+    return `<g transform="translate(${node.x} ${node.y})">` +
+      `<rect width="${node.width}" height="${node.height}" rx="8" fill="${fill}" stroke="${BORDER_COLOR}"${dash}/>` +
+      `<text x="${node.width / 2}" y="${node.height / 2}" text-anchor="middle" dominant-baseline="central" fill="${TEXT_COLOR}">` +
+      `<tspan font-weight="bold">${this.escape(node.icon)}</tspan> ${this.escape(node.label)}</text>` +
+      '</g>';
+  }
+
+  private loadImage(svg: string): Promise<HTMLImageElement> {
+    const url = URL.createObjectURL(new Blob([svg], { type: 'image/svg+xml' }));
+
+    return new Promise((resolve, reject) => {
+      const image = new Image();
+      image.onload = () => {
+        URL.revokeObjectURL(url);
+        resolve(image);
+      };
+      image.onerror = () => {
+        URL.revokeObjectURL(url);
+        reject(new Error('Could not render the SVG'));
+      };
+      image.src = url;
+    });
+  }
+
+  private escape(text: string): string {
+    return text.replace(/[&<>"']/g, char => XML_ESCAPES[char]);
+  }
+}
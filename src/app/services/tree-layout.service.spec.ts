@@ -0,0 +1,99 @@
+import { TestBed } from '@angular/core/testing';
+import { LayoutNode } from '../models/tree-layout.model';
+import { parseFormula } from '../parser/formula-parser';
+import { TreeLayoutService } from './tree-layout.service';
+
+describe('TreeLayoutService', () => {
+  let layoutService: TreeLayoutService;
+
+  const layout = (formula: string) => layoutService.layout(parseFormula(formula));
+  const centre = (node: LayoutNode) => node.x + node.width / 2;
+
+  beforeEach(() => {
+    layoutService = TestBed.inject(TreeLayoutService);
+  });
+
+  it('should return an empty layout without a tree', () => {
+    expect(layoutService.layout(null)).toEqual({ root: null, nodes: [], width: 0, height: 0 });
+  });
+
+  it('should put each depth on its own row', () => {
+    const { nodes } = layout('PI * SQR($r)');
+    expect(nodes.map(node => [node.label, node.depth])).toEqual([
+      ['Mul', 0], ['Pi', 1], ['SQR', 1], ['$r', 2]
+    ]);
+
+    const rows = new Set(nodes.map(node => `${node.depth}:${node.y}`));
+    expect(rows.size).toBe(3);
+  });
+
+  it('should centre a parent over its children', () => {
+    const { root } = layout('1 + 2');
+    const [left, right] = root.children;
+    expect(centre(root)).toBeCloseTo((centre(left) + centre(right)) / 2);
+  });
+
+  it('should keep boxes on the same row apart', () => {
+    const { nodes } = layout('MAX($alpha + 1, $beta * ($gamma - 2), SQRT(4), 5)');
+
+    for (const a of nodes) {
+      for (const b of nodes) {
+        if (a !== b && a.depth === b.depth && a.x < b.x) {
+          expect(a.x + a.width).toBeLessThanOrEqual(b.x);
+        }
+      }
+    }
+  });
+
+  it('should size the canvas to fit every box', () => {
+    const result = layout('SQRT($long_parameter_name) / 2');
+    for (const node of result.nodes) {
+      expect(node.x).toBeGreaterThanOrEqual(0);
+      expect(node.x + node.width).toBeLessThanOrEqual(result.width);
+      expect(node.y + node.height).toBeLessThanOrEqual(result.height);
+    }
+  });
+
+  it('should pack a small subtree under a wide sibling', () => {
+    // The tidy layout lets '2' sit next to the narrow top of SQRT's subtree
+    const { root } = layout('SQRT(MAX($a, $b, $c, $d)) + 2');
+    const [left, right] = root.children;
+    const lastArgument = left.children[0].children[3];
+    expect(right.x).toBeLessThan(lastArgument.x + lastArgument.width);
+  });
+
+  it('should draw a collapsed subtree as one summary box', () => {
+    const ast = parseFormula('PI * SQR($radius + 1)');
+    const sqr = (ast as { right: { id?: string } }).right;
+    sqr.id = 'sqr';
+
+    const { nodes } = layoutService.layout(ast, { collapsed: new Set(['sqr']) });
+    const summary = nodes.find(node => node.node === sqr);
+
+    expect(nodes).toHaveLength(3);
+    expect(summary.label).toBe('SQR($radius + 1)');
+    expect(summary.hiddenCount).toBe(3);
+    expect(summary.children).toEqual([]);
+  });
+
+  it('should shorten long summaries', () => {
+    const ast = parseFormula('SQRT($first_parameter + $second_parameter)');
+    ast.id = 'root';
+
+    const { root } = layoutService.layout(ast, { collapsed: new Set(['root']), maxSummaryLength: 12 });
+    expect(root.label).toBe('SQRT($first…');
+  });
+
+  it('should lay out thousands of nodes without overlaps', () => {
+    const formula = Array.from({ length: 1500 }, (_, i) => `SQR($p${i})`).join(' + ');
+    const result = layout(formula);
+    expect(result.nodes.length).toBe(1500 * 3 - 1);
+
+    const rows = new Map<number, LayoutNode[]>();
+    result.nodes.forEach(node => rows.set(node.depth, [...(rows.get(node.depth) ?? []), node]));
+    for (const row of rows.values()) {
+      row.sort((a, b) => a.x - b.x);
+      row.slice(1).forEach((node, index) => expect(row[index].x + row[index].width).toBeLessThanOrEqual(node.x));
+    }
+  });
+});
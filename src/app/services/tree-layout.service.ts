@@ -0,0 +1,158 @@
+import { Injectable, inject } from '@angular/core';
+import { AstNode, getChildNodes } from '../models/ast-node.model';
+import { getNodeLabel, getNodeMetadata } from '../models/node-metadata.model';
+import { DEFAULT_TREE_LAYOUT_OPTIONS, LayoutNode, TreeLayout, TreeLayoutOptions } from '../models/tree-layout.model';
+import { FormulaBuilderService } from './formula-builder.service';
+
+// Horizontal extent of a subtree per depth. Arrays are indexed by absolute depth and
+// hold offsets from the subtree root's centre; add `shift` to get the parent's frame.
+interface Contour {
+  left: number[];
+  right: number[];
+  shift: number;
+  bottom: number;
+}
+
+/**
+ * Tidy tree layout: every depth is a row, subtrees are packed as closely as
+ * their contours allow, and a parent is centred over its first and last child.
+ * Merging keeps the deeper contour and walks only the shared depths, so large
+ * trees lay out in roughly linear time.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class TreeLayoutService {
+
+  private readonly formulaBuilder = inject(FormulaBuilderService);
+
+  layout(ast: AstNode | null, options: Partial<TreeLayoutOptions> = {}): TreeLayout {
+    const settings = { ...DEFAULT_TREE_LAYOUT_OPTIONS, ...options };
+    if (!ast) {
+      return { root: null, nodes: [], width: 0, height: 0 };
+    }
+
+    const root = this.measure(ast, 0, settings);
+    const offsets = new Map<LayoutNode, number>();
+    this.arrange(root, settings, offsets);
+
+    this.place(root, 0, offsets);
+    const nodes = this.flatten(root);
+
+    // Move the tree right so its leftmost box starts at the padding
+    const shift = settings.padding - nodes.reduce((min, n) => Math.min(min, n.x), Infinity);
+    nodes.forEach(n => n.x += shift);
+
+    const width = nodes.reduce((max, n) => Math.max(max, n.x + n.width), 0) + settings.padding;
+    const height = nodes.reduce((max, n) => Math.max(max, n.y + n.height), 0) + settings.padding;
+    return { root, nodes, width, height };
+  }
+
+  // Builds the layout tree with box sizes; positions are filled in later
+  private measure(node: AstNode, depth: number, settings: TreeLayoutOptions): LayoutNode {
+    const metadata = getNodeMetadata(node.type);
+    const children = getChildNodes(node);
+    const collapsed = children.length > 0 && !!node.id && settings.collapsed.has(node.id);
+    const label = collapsed ? this.summarize(node, settings.maxSummaryLength) : getNodeLabel(node);
+    // Icon, a space and the label, plus horizontal padding inside the box
+    const textWidth = (metadata.icon.length + 1 + label.length) * settings.charWidth;
+
+    return {
+      node,
+      icon: metadata.icon,
+      label,
+      color: metadata.color,
+      x: 0,
+      y: settings.padding + depth * (settings.nodeHeight + settings.levelGap),
+      width: Math.max(settings.minNodeWidth, textWidth + 2 * settings.charWidth),
+      height: settings.nodeHeight,
+      depth,
+      children: collapsed ? [] : children.map(child => this.measure(child, depth + 1, settings)),
+      hiddenCount: collapsed ? this.countDescendants(node) : 0
+    };
+  }
+
+  // Packs the children left to right, records each child's centre relative to
+  // its parent's centre in `offsets`, and returns the subtree's contour
+  private arrange(layoutNode: LayoutNode, settings: TreeLayoutOptions, offsets: Map<LayoutNode, number>): Contour {
+    const half = layoutNode.width / 2;
+    const depth = layoutNode.depth;
+
+    if (layoutNode.children.length === 0) {
+      const contour: Contour = { left: [], right: [], shift: 0, bottom: depth };
+      contour.left[depth] = -half;
+      contour.right[depth] = half;
+      return contour;
+    }
+
+    // Child centres in the frame of the first child's centre
+    const centres: number[] = [];
+    let merged: Contour | null = null;
+
+    for (const child of layoutNode.children) {
+      const contour = this.arrange(child, settings, offsets);
+      if (!merged) {
+        merged = contour;
+        centres.push(0);
+        continue;
+      }
+
+      // The closest the new subtree can sit to everything placed so far
+      let distance = -Infinity;
+      for (let d = depth + 1; d <= Math.min(merged.bottom, contour.bottom); d++) {
+        distance = Math.max(
+          distance,
+          merged.right[d] + merged.shift - (contour.left[d] + contour.shift) + settings.siblingGap
+        );
+      }
+      contour.shift += distance;
+      centres.push(distance);
+      merged = this.merge(merged, contour, depth + 1);
+    }
+
+    const centre = (centres[0] + centres[centres.length - 1]) / 2;
+    layoutNode.children.forEach((child, index) => offsets.set(child, centres[index] - centre));
+
+    merged.shift -= centre;
+    merged.left[depth] = -half - merged.shift;
+    merged.right[depth] = half - merged.shift;
+    return merged;
+  }
+
+  // Combines two sibling contours (`right` placed after `left`), reusing the deeper one's arrays
+  private merge(left: Contour, right: Contour, top: number): Contour {
+    if (right.bottom > left.bottom) {
+      for (let d = top; d <= left.bottom; d++) {
+        right.left[d] = left.left[d] + left.shift - right.shift;
+      }
+      return right;
+    }
+
+    for (let d = top; d <= right.bottom; d++) {
+      left.right[d] = right.right[d] + right.shift - left.shift;
+    }
+    return left;
+  }
+
+  private place(layoutNode: LayoutNode, centre: number, offsets: Map<LayoutNode, number>): void {
+    layoutNode.x = centre - layoutNode.width / 2;
+    for (const child of layoutNode.children) {
+      this.place(child, centre + offsets.get(child), offsets);
+    }
+  }
+
+  private summarize(node: AstNode, maxLength: number): string {
+    const formula = this.formulaBuilder.buildFormula(node);
+    return formula.length > maxLength ? `${formula.slice(0, maxLength - 1)}…` : formula;
+  }
+
+  private countDescendants(node: AstNode): number {
+    return getChildNodes(node).reduce((count, child) => count + 1 + this.countDescendants(child), 0);
+  }
+
+  private flatten(layoutNode: LayoutNode, nodes: LayoutNode[] = []): LayoutNode[] {
+    nodes.push(layoutNode);
+    layoutNode.children.forEach(child => this.flatten(child, nodes));
+    return nodes;
+  }
+}
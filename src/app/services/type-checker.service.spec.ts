@@ -0,0 +1,64 @@
+import { TestBed } from '@angular/core/testing';
+import { BinaryOperationNode, FunctionNode } from '../models/ast-node.model';
+import { provideFormulaFunctions } from '../models/function-definition.model';
+import { parseFormula } from '../parser/formula-parser';
+import { provideMemoryStorage } from '../testing/workspace-storage';
+import { AstManipulatorService } from './ast-manipulator.service';
+import { FormulaValidatorService } from './formula-validator.service';
+import { TypeCheckerService } from './type-checker.service';
+
+describe('TypeCheckerService', () => {
+  let typeChecker: TypeCheckerService;
+  let astService: AstManipulatorService;
+
+  const load = (formula: string) => {
+    astService.setAst(parseFormula(formula));
+    return astService.ast();
+  };
+
+  beforeEach(() => {
+    TestBed.configureTestingModule({
+      providers: [provideMemoryStorage(), provideFormulaFunctions({
+        name: 'LEN',
+        minArity: 1,
+        maxArity: 1,
+        parameterTypes: ['string'],
+        returnType: 'number',
+        description: 'Length of a string',
+        implementation: ([text]) => (text as string).length
+      })]
+    });
+    typeChecker = TestBed.inject(TypeCheckerService);
+    astService = TestBed.inject(AstManipulatorService);
+  });
+
+  it('should infer a type for every node', () => {
+    const ast = load("LEN('abc') + $x") as BinaryOperationNode;
+
+    expect(typeChecker.result().issues).toEqual([]);
+    expect(typeChecker.typeOf(ast.id)).toBe('number');
+    expect(typeChecker.typeOf(ast.left.id)).toBe('number');
+    expect(typeChecker.typeOf((ast.left as FunctionNode).arguments[0].id)).toBe('string');
+  });
+
+  it("should report 'abc' * 2 on the operator node", () => {
+    const ast = load("'abc' * 2");
+
+    expect(typeChecker.result().issues).toEqual([
+      { nodeId: ast.id, code: 'TYPE_MISMATCH', message: 'Cannot apply multiplication to a string' }
+    ]);
+    expect(TestBed.inject(FormulaValidatorService).issuesFor(ast.id).length).toBe(1);
+  });
+
+  it('should check arguments against the function signature', () => {
+    const messages = (formula: string) => typeChecker.check(parseFormula(formula)).issues.map(issue => issue.message);
+
+    expect(messages("SQRT('4')")).toEqual(['SQRT expects a number as argument 1 but got a string']);
+    expect(messages('LEN(4)')).toEqual(['LEN expects a string as argument 1 but got a number']);
+    expect(messages("-('a')")).toEqual(['Cannot negate a string']);
+  });
+
+  it('should not report types it cannot know', () => {
+    expect(typeChecker.check(parseFormula("FOO(1) * 2 + SQRT(?)")).issues).toEqual([]);
+  });
+});
@@ -0,0 +1,126 @@
+import { Injectable, computed, inject } from '@angular/core';
+import {
+  AstNode,
+  BinaryOperationNode,
+  FunctionNode,
+  UnaryOperationNode,
+  isBinaryOperation,
+  isFunction,
+  isUnaryOperation
+} from '../models/ast-node.model';
+import { ValueType, parameterTypeAt } from '../models/function-definition.model';
+import { TypeCheckResult } from '../models/validation.model';
+import { AstManipulatorService } from './ast-manipulator.service';
+import { FunctionRegistryService } from './function-registry.service';
+
+/**
+ * Infers a type for every node, bottom-up. Operators need numbers, function
+ * arguments must match the registry signature, and parameters are always bound
+ * to numbers. A mismatch is reported once, on the node that cannot accept its
+ * operand; that node still gets its declared type so errors do not cascade.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class TypeCheckerService {
+  private readonly astService = inject(AstManipulatorService);
+  private readonly registry = inject(FunctionRegistryService);
+
+  public readonly result = computed<TypeCheckResult>(() => {
+    const astValue = this.astService.ast();
+    return astValue ? this.check(astValue) : { types: new Map(), issues: [] };
+  });
+
+  typeOf(nodeId: string): ValueType {
+    return this.result().types.get(nodeId) ?? 'unknown';
+  }
+
+  // The type of any subtree, e.g. one being rewritten that is not in the tree yet
+  inferType(node: AstNode): ValueType {
+    return this.visit(node, { types: new Map(), issues: [] });
+  }
+
+  check(ast: AstNode): TypeCheckResult {
+    const result: TypeCheckResult = { types: new Map(), issues: [] };
+    this.visit(ast, result);
+    return result;
+  }
+
+  private visit(node: AstNode, result: TypeCheckResult): ValueType {
+    const type = this.infer(node, result);
+    if (node.id) {
+      result.types.set(node.id, type);
+    }
+    return type;
+  }
+
+  private infer(node: AstNode, result: TypeCheckResult): ValueType {
+    if (isBinaryOperation(node)) {
+      return this.visitBinaryOperation(node, result);
+    }
+
+    if (isUnaryOperation(node)) {
+      return this.visitUnaryOperation(node, result);
+    }
+
+    if (isFunction(node)) {
+      return this.visitFunction(node, result);
+    }
+
+    switch (node.type) {
+      case 'NUMBER':
+      case 'VARIABLE':
+      case 'PI':
+      case 'E':
+      case 'REFERENCE':
+        return 'number';
+      case 'STRING':
+        return 'string';
+      default:
+        return 'unknown';
+    }
+  }
+
+  private visitBinaryOperation(node: BinaryOperationNode, result: TypeCheckResult): ValueType {
+    const operands = [this.visit(node.left, result), this.visit(node.right, result)];
+
+    if (operands.includes('string')) {
+      this.report(result, node, `Cannot apply ${node.type.toLowerCase()} to a string`);
+    }
+    return 'number';
+  }
+
+  private visitUnaryOperation(node: UnaryOperationNode, result: TypeCheckResult): ValueType {
+    const operand = this.visit(node.expression, result);
+
+    if (node.type === 'PAREN') {
+      return operand;
+    }
+    if (operand === 'string') {
+      this.report(result, node, 'Cannot negate a string');
+    }
+    return 'number';
+  }
+
+  private visitFunction(node: FunctionNode, result: TypeCheckResult): ValueType {
+    const argTypes = node.arguments.map(arg => this.visit(arg, result));
+    const fn = this.registry.get(node.name);
+
+    // Unknown functions are reported by the validator; their result could be anything
+    if (!fn) {
+      return 'unknown';
+    }
+
+    argTypes.forEach((actual, index) => {
+      const expected = parameterTypeAt(fn, index);
+      if (expected !== 'unknown' && actual !== 'unknown' && actual !== expected) {
+        this.report(result, node, `${fn.name} expects a ${expected} as argument ${index + 1} but got a ${actual}`);
+      }
+    });
+    return fn.returnType;
+  }
+
+  private report(result: TypeCheckResult, node: AstNode, message: string): void {
+    result.issues.push({ nodeId: node.id, code: 'TYPE_MISMATCH', message });
+  }
+}
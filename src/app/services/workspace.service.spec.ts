@@ -0,0 +1,108 @@
+import { TestBed } from '@angular/core/testing';
+import { createMemoryStorage, provideMemoryStorage } from '../testing/workspace-storage';
+import { WorkspaceService } from './workspace.service';
+
+describe('WorkspaceService', () => {
+  let storage: Storage;
+
+  const createService = () => TestBed.inject(WorkspaceService);
+
+  beforeEach(() => {
+    storage = createMemoryStorage();
+    TestBed.configureTestingModule({ providers: [provideMemoryStorage(storage)] });
+  });
+
+  describe('snapshots', () => {
+    it('should restore what was saved', () => {
+      const snapshot = {
+        formula: '$a + 1',
+        parsedFormula: '$a + 1',
+        ast: { type: 'NUMBER', value: 2 } as const,
+        bindings: { a: 3 }
+      };
+      createService().saveSnapshot(snapshot);
+
+      expect(createService().loadSnapshot()).toEqual({ version: 1, ...snapshot });
+    });
+
+    it('should ignore missing, corrupt and outdated snapshots', () => {
+      const service = createService();
+      expect(service.loadSnapshot()).toBeNull();
+
+      storage.setItem('formula-workspace', '{not json');
+      expect(service.loadSnapshot()).toBeNull();
+
+      storage.setItem('formula-workspace', JSON.stringify({ version: 0, formula: '1' }));
+      expect(service.loadSnapshot()).toBeNull();
+    });
+
+    it('should keep working when storage refuses writes', () => {
+      jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+      storage.setItem = () => { throw new Error('QuotaExceededError'); };
+
+      expect(() => createService().saveSnapshot({ formula: '1', parsedFormula: null, ast: null, bindings: {} }))
+        .not.toThrow();
+    });
+  });
+
+  describe('library', () => {
+    it('should start with the example formulas', () => {
+      expect(createService().library().map(saved => saved.name))
+        .toEqual(['Quadratic', 'Simple', 'Complex', 'Arithmetic', 'Nested']);
+    });
+
+    it('should save, replace and delete formulas by name', () => {
+      const service = createService();
+      service.saveFormula(' Area ', 'PI * SQR($r)', { r: 2 });
+      service.saveFormula('Area', 'PI * $r ^ 2');
+      service.deleteFormula('Simple');
+
+      const library = service.library();
+      expect(library.find(saved => saved.name === 'Simple')).toBeUndefined();
+      expect(library.filter(saved => saved.name === 'Area')).toEqual([
+        { name: 'Area', formula: 'PI * $r ^ 2', bindings: {} }
+      ]);
+    });
+
+    it('should persist the library', () => {
+      createService().saveFormula('Area', 'PI * SQR($r)');
+      TestBed.resetTestingModule();
+      TestBed.configureTestingModule({ providers: [provideMemoryStorage(storage)] });
+
+      expect(createService().library().map(saved => saved.name)).toContain('Area');
+    });
+
+    it('should not save without a name', () => {
+      const service = createService();
+      service.saveFormula('  ', '1 + 1');
+      expect(service.library()).toHaveLength(5);
+    });
+  });
+
+  describe('share links', () => {
+    it('should round-trip the formula and bindings', () => {
+      const service = createService();
+      const url = service.createShareUrl('https://example.com/app/?old=1#top', {
+        formula: "($b + SQRT(SQR($b) - 4 * $a)) / (2 * $a) & 'x'",
+        bindings: { a: 1, b: -3.5 }
+      });
+
+      expect(url.startsWith('https://example.com/app/?f=')).toBe(true);
+      expect(service.readShareUrl(url)).toEqual({
+        formula: "($b + SQRT(SQR($b) - 4 * $a)) / (2 * $a) & 'x'",
+        bindings: { a: 1, b: -3.5 }
+      });
+    });
+
+    it('should skip bindings that are not numbers', () => {
+      expect(createService().readShareUrl('https://example.com/?f=$a&$a=abc&$b=&$=1&c=2')).toEqual({
+        formula: '$a',
+        bindings: {}
+      });
+    });
+
+    it('should return null without a formula', () => {
+      expect(createService().readShareUrl('https://example.com/?$a=1')).toBeNull();
+    });
+  });
+});
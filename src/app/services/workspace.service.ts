@@ -0,0 +1,115 @@
+import { Injectable, inject, signal } from '@angular/core';
+import { ParameterBindings } from '../models/evaluation.model';
+import {
+  SavedFormula,
+  SharedFormula,
+  WORKSPACE_STORAGE,
+  WORKSPACE_VERSION,
+  WorkspaceSnapshot
+} from '../models/workspace.model';
+
+const SNAPSHOT_KEY = 'formula-workspace';
+const LIBRARY_KEY = 'formula-library';
+
+// Query parameter holding the formula; bindings use their '$'-prefixed names
+const FORMULA_PARAM = 'f';
+
+// The library a first visit starts with
+const DEFAULT_LIBRARY: SavedFormula[] = [
+  { name: 'Quadratic', formula: '($b + SQRT(SQR($b) - 4 * $a)) / (2 * $a)', bindings: {} },
+  { name: 'Simple', formula: 'PI * SQR($r)', bindings: {} },
+  { name: 'Complex', formula: '(SIN($x) + COS($y)) * EXP($z) / SQRT($w)', bindings: {} },
+  { name: 'Arithmetic', formula: '(10 + 20) * (30 - 15) / 5', bindings: {} },
+  { name: 'Nested', formula: 'SQRT(SQR(SQR($x) + SQR($y)))', bindings: {} }
+];
+
+/**
+ * Keeps the workspace in storage between visits, manages the library of
+ * named formulas, and encodes formulas with their bindings into share links.
+ */
+@Injectable({
+  providedIn: 'root'
+})
+export class WorkspaceService {
+
+  private readonly storage = inject(WORKSPACE_STORAGE);
+
+  private readonly _library = signal<SavedFormula[]>(this.read(LIBRARY_KEY) ?? DEFAULT_LIBRARY);
+
+  public readonly library = this._library.asReadonly();
+
+  saveSnapshot(snapshot: Omit<WorkspaceSnapshot, 'version'>): void {
+    this.write(SNAPSHOT_KEY, { version: WORKSPACE_VERSION, ...snapshot });
+  }
+
+  loadSnapshot(): WorkspaceSnapshot | null {
+    const snapshot = this.read<WorkspaceSnapshot>(SNAPSHOT_KEY);
+    return snapshot?.version === WORKSPACE_VERSION && typeof snapshot.formula === 'string' ? snapshot : null;
+  }
+
+  // Saves under the given name, replacing a formula that already has it
+  saveFormula(name: string, formula: string, bindings: ParameterBindings = {}): void {
+    const trimmed = name.trim();
+    if (!trimmed) return;
+
+    this.updateLibrary(library => {
+      const entry = { name: trimmed, formula, bindings: { ...bindings } };
+      const index = library.findIndex(saved => saved.name === trimmed);
+      return index === -1
+        ? [...library, entry]
+        : library.map((saved, i) => i === index ? entry : saved);
+    });
+  }
+
+  deleteFormula(name: string): void {
+    this.updateLibrary(library => library.filter(saved => saved.name !== name));
+  }
+
+  createShareUrl(baseUrl: string, shared: SharedFormula): string {
+    const url = new URL(baseUrl);
+    url.search = '';
+    url.hash = '';
+    url.searchParams.set(FORMULA_PARAM, shared.formula);
+    Object.entries(shared.bindings).forEach(([name, value]) => url.searchParams.set(`$${name}`, String(value)));
+    return url.toString();
+  }
+
+  // Returns null when the URL does not carry a formula
+  readShareUrl(href: string): SharedFormula | null {
+    const params = new URL(href).searchParams;
+    const formula = params.get(FORMULA_PARAM);
+    if (formula === null) return null;
+
+    const bindings: ParameterBindings = {};
+    params.forEach((value, key) => {
+      const number = Number(value);
+      if (key.startsWith('$') && key.length > 1 && value.trim() !== '' && Number.isFinite(number)) {
+        bindings[key.slice(1)] = number;
+      }
+    });
+    return { formula, bindings };
+  }
+
+  private updateLibrary(update: (library: SavedFormula[]) => SavedFormula[]): void {
+    this._library.update(update);
+    this.write(LIBRARY_KEY, this._library());
+  }
+
+  // Storage can be unavailable or full (private browsing, quotas); the app keeps working without it
+  private read<T>(key: string): T | null {
+    try {
+      const raw = this.storage.getItem(key);
+      return raw ? JSON.parse(raw) as T : null;
+    } catch {
+      return null;
+    }
+  }
+
+  private write(key: string, value: unknown): void {
+    try {
+      this.storage.setItem(key, JSON.stringify(value));
+    } catch (error) {
+      console.warn(`Could not save "${key}":`, error);
+    }
+  }
+}
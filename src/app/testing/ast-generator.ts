@@ -0,0 +1,162 @@
+import { AstNode, BinaryOperationNode } from '../models/ast-node.model';
+import { ParameterBindings } from '../models/evaluation.model';
+
+export interface GeneratedFunction {
+  name: string;
+  minArity: number;
+  maxArity: number;
+}
+
+export interface AstGeneratorOptions {
+  // Levels of operators and calls above the leaves
+  maxDepth: number;
+  // Parameter names without the leading '$'
+  parameters: string[];
+  functions: GeneratedFunction[];
+  includeStrings: boolean;
+}
+
+export const DEFAULT_AST_GENERATOR_OPTIONS: AstGeneratorOptions = {
+  maxDepth: 5,
+  parameters: ['a', 'b', 'x', 'rate'],
+  functions: [
+    { name: 'SQR', minArity: 1, maxArity: 1 },
+    { name: 'SQRT', minArity: 1, maxArity: 1 },
+    { name: 'SIN', minArity: 1, maxArity: 1 },
+    { name: 'ABS', minArity: 1, maxArity: 1 },
+    { name: 'ROUND', minArity: 1, maxArity: 2 },
+    { name: 'MAX', minArity: 1, maxArity: 4 }
+  ],
+  includeStrings: false
+};
+
+const BINARY_TYPES: BinaryOperationNode['type'][] = ['ADDITION', 'SUBTRACTION', 'MULTIPLICATION', 'DIVISION', 'POWER'];
+
+// mulberry32: small, fast and good enough to spread test cases
+export const createSeededRandom = (seed: number): (() => number) => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6D2B79F5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+/**
+ * Seeded generator of random formula trees for property tests. The same seed
+ * always gives the same sequence of trees, so a failure can be replayed.
+ *
+ * - `parsable()` follows the parser's grammar: precedence is spelled out with
+ *   PAREN nodes, so printing and parsing again must give the identical tree.
+ * - `arbitrary()` combines node types freely, has no PAREN nodes and may
+ *   have negative numbers, the way tree edits and transforms build them; the
+ *   printer must add whatever parentheses keep the meaning.
+ */
+export class AstGenerator {
+  private readonly random: () => number;
+  private readonly options: AstGeneratorOptions;
+
+  constructor(seed = 1, options: Partial<AstGeneratorOptions> = {}) {
+    this.random = createSeededRandom(seed);
+    this.options = { ...DEFAULT_AST_GENERATOR_OPTIONS, ...options };
+  }
+
+  parsable(): AstNode {
+    return this.additive(this.options.maxDepth);
+  }
+
+  arbitrary(depth = this.options.maxDepth): AstNode {
+    if (depth <= 0 || this.chance(0.25)) {
+      return this.leaf(true);
+    }
+
+    const kind = this.integer(0, 9);
+    if (kind < 6) {
+      return { type: this.pick(BINARY_TYPES), left: this.arbitrary(depth - 1), right: this.arbitrary(depth - 1) } as AstNode;
+    }
+    if (kind < 8) {
+      return { type: 'NEGATION', expression: this.arbitrary(depth - 1) };
+    }
+    return this.call(depth, next => this.arbitrary(next));
+  }
+
+  // A value for every parameter the trees can use
+  bindings(): ParameterBindings {
+    return Object.fromEntries(this.options.parameters.map(name => [name, this.number(true)]));
+  }
+
+  // Grammar levels, mirroring FormulaParser: additive > multiplicative > unary > power > primary
+  private additive(depth: number): AstNode {
+    if (depth <= 0 || this.chance(0.5)) return this.multiplicative(depth);
+    const type = this.pick<BinaryOperationNode['type']>(['ADDITION', 'SUBTRACTION']);
+    return { type, left: this.additive(depth - 1), right: this.multiplicative(depth - 1) };
+  }
+
+  private multiplicative(depth: number): AstNode {
+    if (depth <= 0 || this.chance(0.5)) return this.unary(depth);
+    const type = this.pick<BinaryOperationNode['type']>(['MULTIPLICATION', 'DIVISION']);
+    return { type, left: this.multiplicative(depth - 1), right: this.unary(depth - 1) };
+  }
+
+  private unary(depth: number): AstNode {
+    if (depth > 0 && this.chance(0.2)) {
+      return { type: 'NEGATION', expression: this.unary(depth - 1) };
+    }
+    return this.power(depth);
+  }
+
+  private power(depth: number): AstNode {
+    if (depth <= 0 || this.chance(0.7)) return this.primary(depth);
+    return { type: 'POWER', left: this.primary(depth - 1), right: this.unary(depth - 1) };
+  }
+
+  private primary(depth: number): AstNode {
+    if (depth <= 0 || this.chance(0.5)) return this.leaf();
+    return this.chance(0.5)
+      ? { type: 'PAREN', expression: this.additive(depth - 1) }
+      : this.call(depth, next => this.additive(next));
+  }
+
+  private call(depth: number, argument: (depth: number) => AstNode): AstNode {
+    const fn = this.pick(this.options.functions);
+    const arity = this.integer(fn.minArity, fn.maxArity);
+    return {
+      type: 'FUNCTION',
+      name: fn.name,
+      arguments: Array.from({ length: arity }, () => argument(depth - 1))
+    };
+  }
+
+  // Edits can store a negative number in one node; the parser reads a NEGATION instead
+  private leaf(signed = false): AstNode {
+    const kind = this.integer(0, this.options.includeStrings ? 9 : 8);
+    if (kind < 4) return { type: 'NUMBER', value: this.number(signed) || 0 };
+    if (kind < 7) return { type: 'VARIABLE', name: `$${this.pick(this.options.parameters)}` };
+    if (kind < 9) return { type: this.chance(0.5) ? 'PI' : 'E' };
+    return { type: 'STRING', value: this.pick(['', 'text', "it's", 'a, b']) };
+  }
+
+  private number(allowNegative: boolean): number {
+    const magnitude = this.pick([
+      () => this.integer(0, 20),
+      () => Math.round(this.random() * 10000) / 100,
+      () => Number((this.random() * 1e-6).toPrecision(3)),
+      () => this.integer(1, 9) * 1e12
+    ])();
+    return allowNegative && this.chance(0.3) ? -magnitude : magnitude;
+  }
+
+  private chance(probability: number): boolean {
+    return this.random() < probability;
+  }
+
+  private integer(min: number, max: number): number {
+    return min + Math.floor(this.random() * (max - min + 1));
+  }
+
+  private pick<T>(items: readonly T[]): T {
+    return items[Math.floor(this.random() * items.length)];
+  }
+}
@@ -0,0 +1,19 @@
+import { Provider } from '@angular/core';
+import { WORKSPACE_STORAGE } from '../models/workspace.model';
+
+// An empty in-memory storage, so no spec sees what another one saved
+export const createMemoryStorage = (): Storage => {
+  const items = new Map<string, string>();
+  return {
+    getItem: (key: string) => items.get(key) ?? null,
+    setItem: (key: string, value: string) => items.set(key, value),
+    removeItem: (key: string) => items.delete(key),
+    clear: () => items.clear(),
+    key: (index: number) => [...items.keys()][index] ?? null,
+    get length() { return items.size; }
+  } as Storage;
+};
+
+// For every spec that injects WorkspaceService, directly or through another service
+export const provideMemoryStorage = (storage: Storage = createMemoryStorage()): Provider =>
+  ({ provide: WORKSPACE_STORAGE, useValue: storage });
@@ -1,6 +1,12 @@
 import { setupZoneTestEnv } from 'jest-preset-angular/setup-env/zone';
+import { randomUUID } from 'crypto';
 
 setupZoneTestEnv({
   errorOnUnknownElements: true,
   errorOnUnknownProperties: true,
 });
+
+// jsdom does not implement crypto.randomUUID, which AstManipulatorService uses for node ids
+if (typeof globalThis.crypto.randomUUID !== 'function') {
+  Object.defineProperty(globalThis.crypto, 'randomUUID', { value: randomUUID });
+}